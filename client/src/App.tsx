@@ -2,12 +2,15 @@ import { Route, Switch, Link, useLocation } from "wouter";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { AuthProvider, useAuth } from "./auth/AuthContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
+import { NotificationBanner } from "./components/NotificationBanner";
 import { Home } from "./pages/Home";
 import { Login } from "./pages/Login";
 import { Visualizer } from "./pages/Visualizer";
 import { MyDesigns } from "./pages/MyDesigns";
 import { Pricing } from "./pages/Pricing";
-import { Sparkles, Home as HomeIcon, Image, CreditCard, LogOut, Menu, X } from "lucide-react";
+import { Account } from "./pages/Account";
+import { Trash } from "./pages/Trash";
+import { Sparkles, Home as HomeIcon, Image, CreditCard, User, LogOut, Menu, X } from "lucide-react";
 import { useState } from "react";
 
 // Create React Query client
@@ -39,6 +42,7 @@ function Navigation() {
     { href: "/visualizer", label: "Create Design", icon: Sparkles, protected: true },
     { href: "/my-designs", label: "My Designs", icon: Image, protected: true },
     { href: "/pricing", label: "Pricing", icon: CreditCard },
+    { href: "/account", label: "Account", icon: User, protected: true },
   ];
 
   return (
@@ -171,6 +175,7 @@ function AppRoutes() {
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
+      <NotificationBanner />
       <Switch>
         <Route path="/" component={Home} />
         <Route path="/login" component={Login} />
@@ -188,6 +193,18 @@ function AppRoutes() {
           </ProtectedRoute>
         </Route>
 
+        <Route path="/trash">
+          <ProtectedRoute>
+            <Trash />
+          </ProtectedRoute>
+        </Route>
+
+        <Route path="/account">
+          <ProtectedRoute>
+            <Account />
+          </ProtectedRoute>
+        </Route>
+
         {/* 404 */}
         <Route>
           <div className="min-h-screen flex items-center justify-center">
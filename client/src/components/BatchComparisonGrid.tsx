@@ -0,0 +1,98 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, AlertCircle, X } from "lucide-react";
+import { designsApi } from "../lib/api";
+import type { DesignStyle } from "../lib/api";
+
+interface BatchComparisonGridProps {
+  batchId: number;
+  styles: DesignStyle[];
+  onClose: () => void;
+  onSettled?: () => void;
+}
+
+/**
+ * Side-by-side results of a batch, one tile per style, filled in as they finish
+ */
+export function BatchComparisonGrid({ batchId, styles, onClose, onSettled }: BatchComparisonGridProps) {
+  const { data, error } = useQuery({
+    queryKey: ["designs", "batch", batchId],
+    queryFn: () => designsApi.getBatch(batchId),
+    refetchInterval: (query) => (query.state.data?.batch.status === "completed" ? false : 3000),
+  });
+
+  const batch = data?.batch;
+
+  // Failed items are refunded, so let the parent refresh the credit balance
+  useEffect(() => {
+    if (batch?.status === "completed") onSettled?.();
+  }, [batch?.status]);
+
+  const styleName = (styleId: number) => styles.find((style) => style.id === styleId)?.name || "Style";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Style Comparison</h2>
+          {batch && (
+            <p className="text-sm text-gray-600 mt-1">
+              {batch.progress.completed} of {batch.progress.total} ready
+              {batch.progress.failed > 0 && ` · ${batch.progress.failed} failed and refunded`}
+            </p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close comparison">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error instanceof Error ? error.message : "Failed to load comparison"}
+        </div>
+      )}
+
+      {!batch && !error && (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-10 h-10 animate-spin text-blue-500" />
+        </div>
+      )}
+
+      {batch && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {batch.designs.map((design) => (
+            <div key={design.id} className="rounded-lg border border-gray-200 overflow-hidden">
+              <div className="aspect-square bg-gray-100">
+                {design.status === "completed" ? (
+                  <a href={design.generatedImage} target="_blank" rel="noreferrer">
+                    <img
+                      src={design.generatedImage}
+                      alt={`${styleName(design.styleId)} design`}
+                      className="w-full h-full object-cover"
+                    />
+                  </a>
+                ) : (
+                  <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-sm text-gray-500">
+                    {design.status === "generating" ? (
+                      <>
+                        <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+                        Rendering...
+                      </>
+                    ) : (
+                      <>
+                        <AlertCircle className="w-8 h-8 text-red-400" />
+                        Failed - credit refunded
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+              <p className="px-3 py-2 text-sm font-medium text-gray-900">{styleName(design.styleId)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
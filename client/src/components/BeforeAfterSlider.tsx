@@ -0,0 +1,28 @@
+import { ReactCompareSlider, ReactCompareSliderImage } from "react-compare-slider";
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+/**
+ * Drag (or use the arrow keys) to reveal the original photo over the design
+ */
+export function BeforeAfterSlider({ before, after, className = "" }: BeforeAfterSliderProps) {
+  return (
+    <div className={`relative overflow-hidden rounded-lg ${className}`}>
+      <ReactCompareSlider
+        itemOne={<ReactCompareSliderImage src={before} alt="Before" />}
+        itemTwo={<ReactCompareSliderImage src={after} alt="After" />}
+      />
+
+      <span className="absolute top-3 left-3 px-2 py-1 rounded-full bg-black/60 text-white text-xs font-bold tracking-wider pointer-events-none">
+        BEFORE
+      </span>
+      <span className="absolute top-3 right-3 px-2 py-1 rounded-full bg-black/60 text-white text-xs font-bold tracking-wider pointer-events-none">
+        AFTER
+      </span>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 import { useState } from "react";
-import { Download, Heart, Trash2, Eye } from "lucide-react";
-import type { Design } from "../lib/api";
+import { Download, Heart, Trash2, Eye, Shuffle, Loader2, AlertCircle } from "lucide-react";
+import { DesignImage } from "./DesignImage";
+import type { Design, PaletteColor } from "../lib/api";
 
 interface DesignCardProps {
   design: Design;
   onToggleFavorite?: (id: number, isFavorite: boolean) => void;
   onDelete?: (id: number) => void;
   onView?: (design: Design) => void;
+  onRemix?: (design: Design) => void;
+  onSelectColor?: (color: PaletteColor) => void;
 }
 
 export function DesignCard({
@@ -14,6 +17,8 @@ export function DesignCard({
   onToggleFavorite,
   onDelete,
   onView,
+  onRemix,
+  onSelectColor,
 }: DesignCardProps) {
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -37,7 +42,7 @@ export function DesignCard({
     if (!onDelete) return;
 
     const confirmed = window.confirm(
-      "Are you sure you want to delete this design? This action cannot be undone."
+      "Move this design to the trash? You can restore it from the trash until it's removed for good."
     );
 
     if (confirmed) {
@@ -60,17 +65,39 @@ export function DesignCard({
     >
       {/* Image */}
       <div className="relative aspect-square bg-gray-100">
-        <img
-          src={design.generatedImage}
-          alt={design.title || "Generated design"}
-          className="w-full h-full object-cover"
-          loading="lazy"
-        />
-
-        {/* Watermark indicator */}
-        {design.hasWatermark && (
-          <div className="absolute top-2 left-2 px-2 py-1 bg-gray-900/70 text-white text-xs rounded">
-            Free Tier
+        {design.status === "completed" ? (
+          <DesignImage
+            src={design.generatedImage}
+            variants={design.generatedImageVariants}
+            sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+            alt={design.title || "Generated design"}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-gray-500 text-sm">
+            {design.status === "generating" ? (
+              <>
+                <Loader2 className="w-8 h-8 animate-spin text-blue-500" />
+                Generating...
+              </>
+            ) : (
+              <>
+                <AlertCircle className="w-8 h-8 text-red-400" />
+                Generation failed
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Watermark and staging indicators */}
+        {(design.hasWatermark || design.generationMode === "stage") && (
+          <div className="absolute top-2 left-2 flex gap-1">
+            {design.hasWatermark && (
+              <span className="px-2 py-1 bg-gray-900/70 text-white text-xs rounded">Free Tier</span>
+            )}
+            {design.generationMode === "stage" && (
+              <span className="px-2 py-1 bg-blue-600/80 text-white text-xs rounded">Virtually Staged</span>
+            )}
           </div>
         )}
 
@@ -82,7 +109,7 @@ export function DesignCard({
         )}
 
         {/* View overlay */}
-        {onView && (
+        {onView && design.status === "completed" && (
           <button
             onClick={() => onView(design)}
             className="absolute inset-0 bg-black/0 hover:bg-black/40 transition-all flex items-center justify-center group"
@@ -106,17 +133,46 @@ export function DesignCard({
           Created {new Date(design.createdAt).toLocaleDateString()}
         </p>
 
+        {/* Palette - swatch widths follow each color's coverage */}
+        {design.palette && design.palette.length > 0 && (
+          <div className="flex h-5 rounded overflow-hidden border border-gray-200 mb-3">
+            {design.palette.map((color) => (
+              <button
+                key={color.hex}
+                onClick={() => onSelectColor?.(color)}
+                disabled={!onSelectColor}
+                style={{ backgroundColor: color.hex, flexGrow: color.coverage }}
+                className="min-w-[0.75rem] disabled:cursor-default"
+                title={`${color.name} ${color.hex} (${color.coverage}%)`}
+                aria-label={`${color.name}, ${color.coverage}% of the design`}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="flex items-center gap-2">
           {/* Download */}
           <button
             onClick={handleDownload}
-            className="flex-1 px-3 py-2 bg-blue-500 text-white text-sm font-medium rounded-md hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
+            disabled={design.status !== "completed"}
+            className="flex-1 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-2 bg-blue-500 text-white text-sm font-medium rounded-md hover:bg-blue-600 transition-colors flex items-center justify-center gap-2"
           >
             <Download className="w-4 h-4" />
             Download
           </button>
 
+          {/* Remix into variations */}
+          {onRemix && design.status === "completed" && (
+            <button
+              onClick={() => onRemix(design)}
+              className="p-2 rounded-md border border-gray-300 text-gray-600 hover:bg-blue-50 hover:border-blue-300 hover:text-blue-600 transition-colors"
+              aria-label="Create variations"
+            >
+              <Shuffle className="w-5 h-5" />
+            </button>
+          )}
+
           {/* Favorite */}
           {onToggleFavorite && (
             <button
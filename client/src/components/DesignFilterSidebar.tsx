@@ -0,0 +1,172 @@
+import type { ReactNode } from "react";
+import { X } from "lucide-react";
+import type { DesignFacets } from "../lib/api";
+
+export type CreatedWithin = keyof DesignFacets["createdWithin"];
+
+export interface DesignFilters {
+  createdWithin: CreatedWithin | null;
+  color: string; // Palette color name or family ("" = any)
+  tier: string | null;
+  isPublic: boolean | null;
+}
+
+export const NO_DESIGN_FILTERS: DesignFilters = { createdWithin: null, color: "", tier: null, isPublic: null };
+
+// Days back from today for each date range option
+export const CREATED_WITHIN_DAYS: Record<CreatedWithin, number> = { week: 7, month: 30, year: 365 };
+
+const CREATED_WITHIN_LABELS: Record<CreatedWithin, string> = {
+  week: "Past week",
+  month: "Past month",
+  year: "Past year",
+};
+
+// Swatches for the palette families the server groups named colors into
+const FAMILY_COLORS: Record<string, string> = {
+  white: "#f8f8f6",
+  beige: "#d8c8a8",
+  gray: "#9a9a98",
+  black: "#1c1c1c",
+  brown: "#5c4033",
+  red: "#a23b32",
+  orange: "#c0674a",
+  yellow: "#d0a32e",
+  green: "#9caf88",
+  blue: "#1f2a44",
+  purple: "#5e3553",
+  pink: "#e6b8b4",
+};
+
+interface DesignFilterSidebarProps {
+  facets?: DesignFacets;
+  filters: DesignFilters;
+  onChange: (filters: DesignFilters) => void;
+}
+
+interface FacetOptionProps {
+  label: string;
+  count?: number;
+  isSelected: boolean;
+  swatch?: string;
+  onClick: () => void;
+}
+
+/**
+ * One option of a facet with how many designs it would show
+ */
+function FacetOption({ label, count, isSelected, swatch, onClick }: FacetOptionProps) {
+  return (
+    <li>
+      <button
+        onClick={onClick}
+        disabled={count === 0 && !isSelected}
+        className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm text-left transition-colors disabled:opacity-40 ${
+          isSelected ? "bg-blue-50 text-blue-700 font-medium" : "text-gray-700 hover:bg-gray-100"
+        }`}
+      >
+        {swatch && <span className="w-4 h-4 rounded-full border border-gray-300" style={{ backgroundColor: swatch }} />}
+        <span className="flex-1 capitalize">{label}</span>
+        {count !== undefined && <span className="text-xs text-gray-500">{count}</span>}
+      </button>
+    </li>
+  );
+}
+
+function FacetSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{title}</h3>
+      <ul className="space-y-0.5">{children}</ul>
+    </div>
+  );
+}
+
+/**
+ * Date, color, plan and visibility filters for My Designs with facet counts
+ * Clicking the selected option again clears that filter.
+ */
+export function DesignFilterSidebar({ facets, filters, onChange }: DesignFilterSidebarProps) {
+  const update = (changes: Partial<DesignFilters>) => onChange({ ...filters, ...changes });
+  const hasFilters =
+    filters.createdWithin !== null || filters.color !== "" || filters.tier !== null || filters.isPublic !== null;
+
+  // A color picked from a design's palette ("navy") isn't one of the families, so show it on its own
+  const colors = facets?.colors || [];
+  const isNamedColor = filters.color !== "" && !colors.some(({ family }) => family === filters.color);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">Filters</h2>
+        {hasFilters && (
+          <button
+            onClick={() => onChange(NO_DESIGN_FILTERS)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <X className="w-3.5 h-3.5" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <FacetSection title="Created">
+        {(Object.keys(CREATED_WITHIN_LABELS) as CreatedWithin[]).map((range) => (
+          <FacetOption
+            key={range}
+            label={CREATED_WITHIN_LABELS[range]}
+            count={facets?.createdWithin[range]}
+            isSelected={filters.createdWithin === range}
+            onClick={() => update({ createdWithin: filters.createdWithin === range ? null : range })}
+          />
+        ))}
+      </FacetSection>
+
+      <FacetSection title="Color">
+        {isNamedColor && (
+          <FacetOption label={filters.color} isSelected onClick={() => update({ color: "" })} />
+        )}
+        {colors.map(({ family, count }) => (
+          <FacetOption
+            key={family}
+            label={family}
+            count={count}
+            swatch={FAMILY_COLORS[family]}
+            isSelected={filters.color === family}
+            onClick={() => update({ color: filters.color === family ? "" : family })}
+          />
+        ))}
+        {colors.length === 0 && !isNamedColor && <li className="px-2 text-sm text-gray-500">No colors yet</li>}
+      </FacetSection>
+
+      {facets && facets.creationTiers.length > 0 && (
+        <FacetSection title="Plan">
+          {facets.creationTiers.map(({ tier, count }) => (
+            <FacetOption
+              key={tier}
+              label={tier}
+              count={count}
+              isSelected={filters.tier === tier}
+              onClick={() => update({ tier: filters.tier === tier ? null : tier })}
+            />
+          ))}
+        </FacetSection>
+      )}
+
+      <FacetSection title="Visibility">
+        <FacetOption
+          label="Public"
+          count={facets?.visibility.public}
+          isSelected={filters.isPublic === true}
+          onClick={() => update({ isPublic: filters.isPublic === true ? null : true })}
+        />
+        <FacetOption
+          label="Private"
+          count={facets?.visibility.private}
+          isSelected={filters.isPublic === false}
+          onClick={() => update({ isPublic: filters.isPublic === false ? null : false })}
+        />
+      </FacetSection>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { ImageVariant } from "../lib/api";
+
+interface DesignImageProps {
+  src: string; // Full-size image, used when the design has no thumbnails
+  variants?: ImageVariant[] | null;
+  sizes: string; // Rendered width, as in the <img sizes> attribute
+  alt: string;
+  className?: string;
+}
+
+/**
+ * Design image loaded through srcset from its thumbnails
+ * Browsers with WebP support pick the WebP set, others the JPEG set.
+ */
+export function DesignImage({ src, variants, sizes, alt, className }: DesignImageProps) {
+  if (!variants || variants.length === 0) {
+    return <img src={src} alt={alt} className={className} loading="lazy" />;
+  }
+
+  // Small images yield the same width for several sizes; srcset needs each width once
+  const distinct = variants.filter((variant, index) => variants.findIndex((other) => other.width === variant.width) === index);
+  const srcSet = (format: "webp" | "jpeg") => distinct.map((variant) => `${variant[format]} ${variant.width}w`).join(", ");
+  const fallback = variants.find((variant) => variant.size === "medium") || variants[0];
+
+  return (
+    <picture className="contents">
+      <source type="image/webp" srcSet={srcSet("webp")} sizes={sizes} />
+      <img src={fallback.jpeg} srcSet={srcSet("jpeg")} sizes={sizes} alt={alt} className={className} loading="lazy" />
+    </picture>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Layers, ChevronDown, ChevronUp } from "lucide-react";
+import { DesignCard } from "./DesignCard";
+import type { Design, PaletteColor } from "../lib/api";
+
+interface DesignStackProps {
+  design: Design;
+  onToggleFavorite?: (id: number, isFavorite: boolean) => void;
+  onDelete?: (id: number) => void;
+  onRemix?: (design: Design) => void;
+  onSelectColor?: (color: PaletteColor) => void;
+  onView?: (design: Design) => void;
+}
+
+/**
+ * A design with its variations stacked behind it
+ * Expands to show each variation as its own card
+ */
+export function DesignStack({ design, onToggleFavorite, onDelete, onRemix, onSelectColor, onView }: DesignStackProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const variations = design.variations || [];
+
+  if (variations.length === 0) {
+    return (
+      <DesignCard
+        design={design}
+        onToggleFavorite={onToggleFavorite}
+        onDelete={onDelete}
+        onRemix={onRemix}
+        onSelectColor={onSelectColor}
+        onView={onView}
+      />
+    );
+  }
+
+  return (
+    <div className={isExpanded ? "col-span-full" : ""}>
+      <div className={isExpanded ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6" : ""}>
+        {/* Original, with layered edges hinting at the variations behind it */}
+        <div className="relative">
+          {!isExpanded && (
+            <>
+              <div className="absolute inset-0 translate-x-3 translate-y-3 bg-white rounded-lg border border-gray-200 shadow-sm" />
+              <div className="absolute inset-0 translate-x-1.5 translate-y-1.5 bg-white rounded-lg border border-gray-200 shadow-sm" />
+            </>
+          )}
+          <div className="relative">
+            <DesignCard
+              design={design}
+              onToggleFavorite={onToggleFavorite}
+              onDelete={onDelete}
+              onRemix={onRemix}
+              onSelectColor={onSelectColor}
+              onView={onView}
+            />
+          </div>
+        </div>
+
+        {isExpanded &&
+          variations.map((variation) => (
+            <DesignCard
+              key={variation.id}
+              design={variation}
+              onToggleFavorite={onToggleFavorite}
+              onDelete={onDelete}
+              onSelectColor={onSelectColor}
+              onView={onView}
+            />
+          ))}
+      </div>
+
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="mt-4 w-full px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md hover:bg-blue-100 transition-colors flex items-center justify-center gap-2"
+      >
+        <Layers className="w-4 h-4" />
+        {isExpanded ? "Collapse" : `${variations.length} variation${variations.length !== 1 ? "s" : ""}`}
+        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Heart, Download, Trash2 } from "lucide-react";
+import { BeforeAfterSlider } from "./BeforeAfterSlider";
+import { LIGHTING_SCENARIOS } from "./LightingScenarioPicker";
+import { designsApi } from "../lib/api";
+import type { DesignView } from "../lib/api";
+
+interface DesignViewSwitcherProps {
+  designId: number;
+  image: string; // The design itself
+  originalImage?: string; // Shown behind a before/after slider when given
+  canEdit?: boolean; // Owner - can favorite and delete views
+}
+
+function viewLabel(view: DesignView): string {
+  if (view.kind === "lighting") {
+    return LIGHTING_SCENARIOS.find((option) => option.value === view.lightingScenario)?.label || "Lighting";
+  }
+  return view.kind === "angle" ? "Corner view" : "Detail view";
+}
+
+/**
+ * Toggle between a design and its alternative views
+ */
+export function DesignViewSwitcher({ designId, image, originalImage, canEdit = true }: DesignViewSwitcherProps) {
+  const queryClient = useQueryClient();
+  const [activeViewId, setActiveViewId] = useState<number | null>(null);
+  const viewsKey = ["designs", designId, "views"];
+
+  const { data } = useQuery({
+    queryKey: viewsKey,
+    queryFn: () => designsApi.getViews(designId),
+  });
+
+  const views = data?.views || [];
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+
+  const favoriteMutation = useMutation({
+    mutationFn: (view: DesignView) => designsApi.updateView(designId, view.id, { isFavorite: !view.isFavorite }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: viewsKey }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (view: DesignView) => designsApi.deleteView(designId, view.id),
+    onSuccess: () => {
+      setActiveViewId(null);
+      queryClient.invalidateQueries({ queryKey: viewsKey });
+    },
+  });
+
+  const handleDownload = async (view: DesignView) => {
+    const blob = await designsApi.getViewImage(designId, view.id, true);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `aifyinteriors-design-${designId}-${view.lightingScenario || view.kind}.${blob.type === "image/jpeg" ? "jpg" : "png"}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDelete = (view: DesignView) => {
+    if (window.confirm(`Delete the ${viewLabel(view).toLowerCase()} of this design?`)) {
+      deleteMutation.mutate(view);
+    }
+  };
+
+  const displayedImage = activeView?.imageUrl || image;
+
+  return (
+    <div className="space-y-3">
+      {views.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {[null, ...views].map((view) => (
+            <button
+              key={view?.id ?? "design"}
+              onClick={() => setActiveViewId(view?.id ?? null)}
+              className={`
+                px-3 py-1.5 rounded-full text-sm font-medium transition-colors flex items-center gap-1
+                ${
+                  activeViewId === (view?.id ?? null)
+                    ? "bg-blue-600 text-white"
+                    : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                }
+              `}
+            >
+              {view ? viewLabel(view) : "As designed"}
+              {view?.isFavorite && <Heart className="w-3 h-3 fill-current" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {originalImage ? (
+        <BeforeAfterSlider before={originalImage} after={displayedImage} className="shadow-md" />
+      ) : (
+        <img src={displayedImage} alt="Design" className="w-full rounded-lg shadow-md" />
+      )}
+
+      {/* Actions for the selected view */}
+      {activeView && (
+        <div className="flex gap-2">
+          {canEdit && (
+            <button
+              onClick={() => favoriteMutation.mutate(activeView)}
+              disabled={favoriteMutation.isPending}
+              className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 flex items-center gap-1"
+            >
+              <Heart className={`w-4 h-4 ${activeView.isFavorite ? "fill-red-500 text-red-500" : ""}`} />
+              {activeView.isFavorite ? "Favorited" : "Favorite"}
+            </button>
+          )}
+          <button
+            onClick={() => handleDownload(activeView)}
+            className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 flex items-center gap-1"
+          >
+            <Download className="w-4 h-4" />
+            Download view
+          </button>
+          {canEdit && (
+            <button
+              onClick={() => handleDelete(activeView)}
+              disabled={deleteMutation.isPending}
+              className="px-3 py-2 rounded-lg bg-white border border-gray-300 text-red-600 text-sm font-medium hover:bg-red-50 flex items-center gap-1"
+            >
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { X, Download, Loader2 } from "lucide-react";
+import { DesignViewSwitcher } from "./DesignViewSwitcher";
+import { RevisionTimeline } from "./RevisionTimeline";
+import { designsApi } from "../lib/api";
+import type { ComparisonLayout, Design } from "../lib/api";
+
+interface DesignViewerDialogProps {
+  design: Design;
+  onClose: () => void;
+}
+
+const LAYOUTS: Array<{ value: ComparisonLayout; label: string }> = [
+  { value: "side-by-side", label: "Side by side" },
+  { value: "top-bottom", label: "Top / bottom" },
+  { value: "diagonal", label: "Diagonal" },
+];
+
+/**
+ * Full-size before/after view of a design with its revision history and comparison image export
+ */
+export function DesignViewerDialog({ design, onClose }: DesignViewerDialogProps) {
+  // The revision being worked on, and the one on screen while browsing the history
+  const [currentDesign, setCurrentDesign] = useState(design);
+  const [activeDesign, setActiveDesign] = useState(design);
+  const [layout, setLayout] = useState<ComparisonLayout>("side-by-side");
+  const [labels, setLabels] = useState(true);
+  const [branding, setBranding] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      const blob = await designsApi.getComparisonImage(activeDesign.id, { layout, labels, branding });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `aifyinteriors-design-${activeDesign.id}-${layout}.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{activeDesign.title || "Before & After"}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4">
+          <DesignViewSwitcher
+            key={activeDesign.id}
+            designId={activeDesign.id}
+            image={activeDesign.generatedImage}
+            originalImage={activeDesign.originalImage}
+          />
+        </div>
+
+        <div className="px-6 pb-4">
+          <RevisionTimeline
+            currentId={currentDesign.id}
+            selectedId={activeDesign.id}
+            onSelect={setActiveDesign}
+            onReverted={(reverted) => {
+              setCurrentDesign(reverted);
+              setActiveDesign(reverted);
+            }}
+          />
+        </div>
+
+        {/* Comparison export */}
+        <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap items-center gap-4">
+          <div className="flex gap-2">
+            {LAYOUTS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setLayout(option.value)}
+                className={`
+                  px-3 py-1.5 rounded-lg text-sm font-medium transition-colors
+                  ${layout === option.value ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"}
+                `}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={labels} onChange={(e) => setLabels(e.target.checked)} />
+            Labels
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={branding} onChange={(e) => setBranding(e.target.checked)} />
+            Branding
+          </label>
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="ml-auto px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export Comparison
+          </button>
+
+          {exportError && <p className="w-full text-sm text-red-700">{exportError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
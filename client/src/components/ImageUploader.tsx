@@ -16,6 +16,7 @@ export function ImageUploader({
 }: ImageUploaderProps) {
   const [preview, setPreview] = useState<string | null>(currentImage || null);
   const [error, setError] = useState<string | null>(null);
+  const [previewUnavailable, setPreviewUnavailable] = useState(false);
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
@@ -38,6 +39,7 @@ export function ImageUploader({
       try {
         // Convert to base64
         const base64 = await fileToBase64(file);
+        setPreviewUnavailable(false);
         setPreview(base64);
         onImageSelect(base64);
       } catch (err) {
@@ -51,7 +53,7 @@ export function ImageUploader({
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      "image/*": [".png", ".jpg", ".jpeg", ".webp"],
+      "image/*": [".png", ".jpg", ".jpeg", ".webp", ".heic", ".heif"],
     },
     maxFiles: 1,
     multiple: false,
@@ -60,6 +62,7 @@ export function ImageUploader({
   const clearImage = () => {
     setPreview(null);
     setError(null);
+    setPreviewUnavailable(false);
   };
 
   return (
@@ -91,17 +94,26 @@ export function ImageUploader({
               Drag & drop or click to select
             </p>
             <p className="text-xs text-gray-400 mt-2">
-              Supports: PNG, JPG, JPEG, WebP (max {maxSize}MB)
+              Supports: PNG, JPG, JPEG, WebP, HEIC (max {maxSize}MB)
             </p>
           </div>
         </div>
       ) : (
         <div className="relative rounded-lg overflow-hidden border border-gray-200">
-          <img
-            src={preview}
-            alt="Uploaded room"
-            className="w-full h-auto object-contain max-h-96"
-          />
+          {previewUnavailable ? (
+            // Most browsers can't display HEIC - the server converts it on upload
+            <div className="h-64 flex flex-col items-center justify-center bg-gray-50 text-sm text-gray-500">
+              <ImageIcon className="w-12 h-12 mb-2 text-gray-400" />
+              Preview not available - the photo will be converted when you generate
+            </div>
+          ) : (
+            <img
+              src={preview}
+              alt="Uploaded room"
+              className="w-full h-auto object-contain max-h-96"
+              onError={() => setPreviewUnavailable(true)}
+            />
+          )}
           <button
             onClick={clearImage}
             className="absolute top-2 right-2 bg-red-500 text-white p-2 rounded-full hover:bg-red-600 transition-colors shadow-lg"
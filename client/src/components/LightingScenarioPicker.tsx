@@ -0,0 +1,58 @@
+import { Lock, Sun, Sunset, Moon, CloudSun } from "lucide-react";
+import type { LightingScenario } from "../lib/api";
+
+export const LIGHTING_SCENARIOS: Array<{ value: LightingScenario; label: string; icon: typeof Sun }> = [
+  { value: "daylight", label: "Daylight", icon: Sun },
+  { value: "golden-hour", label: "Golden hour", icon: CloudSun },
+  { value: "evening", label: "Evening", icon: Sunset },
+  { value: "night", label: "Night", icon: Moon },
+];
+
+interface LightingScenarioPickerProps {
+  scenarios: LightingScenario[];
+  onChange: (scenarios: LightingScenario[]) => void;
+  locked?: boolean; // Free tier - scenarios need a paid plan
+}
+
+/**
+ * Choose lighting scenarios to render the design under, one extra view each
+ */
+export function LightingScenarioPicker({ scenarios, onChange, locked }: LightingScenarioPickerProps) {
+  const toggleScenario = (scenario: LightingScenario) => {
+    onChange(
+      scenarios.includes(scenario) ? scenarios.filter((value) => value !== scenario) : [...scenarios, scenario]
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {LIGHTING_SCENARIOS.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            onClick={() => toggleScenario(value)}
+            disabled={locked}
+            className={`
+              px-3 py-1.5 rounded-full text-sm font-medium transition-colors flex items-center gap-1.5
+              ${
+                scenarios.includes(value)
+                  ? "bg-blue-600 text-white"
+                  : locked
+                  ? "bg-gray-100 text-gray-400 cursor-not-allowed"
+                  : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+              }
+            `}
+          >
+            {locked ? <Lock className="w-3 h-3" /> : <Icon className="w-4 h-4" />}
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {locked
+          ? "Upgrade to see your design under different lighting"
+          : "Each scenario is rendered as an extra view of the same design"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle, X } from "lucide-react";
+import { useAuth } from "../auth/AuthContext";
+import { usersApi } from "../lib/api";
+
+/**
+ * Unread notifications (retention warnings) under the navigation, until dismissed
+ */
+export function NotificationBanner() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ["user", "notifications", "unread"],
+    queryFn: () => usersApi.getNotifications({ unread: true }),
+    enabled: !!user,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (id: number) => usersApi.markNotificationRead(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user", "notifications"] });
+    },
+  });
+
+  if (!user || !data || data.notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-300">
+      {data.notifications.map((notification) => (
+        <div
+          key={notification.id}
+          className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-start gap-3 text-amber-900"
+        >
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium">{notification.title}</p>
+            <p className="mt-0.5">
+              {notification.message}{" "}
+              <Link href="/account">
+                <a className="underline font-medium">See your account</a>
+              </Link>
+            </p>
+          </div>
+          <button
+            onClick={() => dismissMutation.mutate(notification.id)}
+            disabled={dismissMutation.isPending}
+            className="p-1 rounded hover:bg-amber-100"
+            aria-label="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+
+interface PaletteLockPickerProps {
+  colors: string[];
+  onChange: (colors: string[]) => void;
+  maxColors?: number;
+}
+
+/**
+ * Pick up to `maxColors` hex colors for the generated design to build on
+ */
+export function PaletteLockPicker({ colors, onChange, maxColors = 5 }: PaletteLockPickerProps) {
+  const [draft, setDraft] = useState("#1f2a44");
+
+  const addColor = () => {
+    const hex = draft.toLowerCase();
+    if (colors.length < maxColors && !colors.includes(hex)) {
+      onChange([...colors, hex]);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        {colors.map((hex) => (
+          <span
+            key={hex}
+            className="flex items-center gap-1.5 pl-1 pr-2 py-1 rounded-full border border-gray-300 bg-white text-xs font-mono text-gray-700"
+          >
+            <span className="w-5 h-5 rounded-full border border-gray-200" style={{ backgroundColor: hex }} />
+            {hex}
+            <button
+              onClick={() => onChange(colors.filter((color) => color !== hex))}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label={`Remove ${hex}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+
+        {colors.length < maxColors && (
+          <span className="flex items-center gap-1">
+            <input
+              type="color"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="w-8 h-8 rounded cursor-pointer border border-gray-300"
+              aria-label="Choose a color"
+            />
+            <button
+              onClick={addColor}
+              className="px-2 py-1 rounded-lg bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {colors.length}/{maxColors} colors - the design will be built around these
+      </p>
+    </div>
+  );
+}
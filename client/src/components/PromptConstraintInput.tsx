@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+
+interface PromptConstraintInputProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder: string;
+  maxItems?: number;
+}
+
+/**
+ * Build a short list of room elements, e.g. things to leave out or keep as they are
+ */
+export function PromptConstraintInput({ items, onChange, placeholder, maxItems = 8 }: PromptConstraintInputProps) {
+  const [draft, setDraft] = useState("");
+
+  const addItem = () => {
+    const item = draft.trim();
+    if (item && items.length < maxItems && !items.includes(item)) {
+      onChange([...items, item]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        {items.map((item) => (
+          <span
+            key={item}
+            className="flex items-center gap-1.5 px-3 py-1 rounded-full border border-gray-300 bg-white text-sm text-gray-700"
+          >
+            {item}
+            <button
+              onClick={() => onChange(items.filter((value) => value !== item))}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label={`Remove ${item}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+
+        {items.length < maxItems && (
+          <span className="flex items-center gap-1">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addItem();
+                }
+              }}
+              placeholder={placeholder}
+              maxLength={80}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={addItem}
+              disabled={!draft.trim()}
+              className="px-2 py-1 rounded-lg bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {items.length}/{maxItems} - press Enter to add
+      </p>
+    </div>
+  );
+}
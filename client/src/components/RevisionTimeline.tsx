@@ -0,0 +1,119 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RotateCcw } from "lucide-react";
+import { DesignImage } from "./DesignImage";
+import { designsApi } from "../lib/api";
+import type { Design, RevisionNode, RevisionOperation } from "../lib/api";
+
+interface RevisionTimelineProps {
+  currentId: number; // The revision being worked on; reverts are saved under it
+  selectedId: number; // The revision on screen
+  onSelect: (design: Design) => void;
+  onReverted: (design: Design) => void;
+}
+
+const OPERATION_LABELS: Record<RevisionOperation, string> = {
+  edit: "Edit",
+  variation: "Variation",
+  upscale: "Upscale",
+  regenerate: "Regeneration",
+  revert: "Revert",
+};
+
+// Depth-first, so each revision follows the one it was made from
+function flatten(nodes: RevisionNode[], depth = 0): Array<{ design: RevisionNode; depth: number }> {
+  return nodes.flatMap((node) => [{ design: node, depth }, ...flatten(node.children, depth + 1)]);
+}
+
+/**
+ * Every revision in a design's lineage, to browse and revert to
+ */
+export function RevisionTimeline({ currentId, selectedId, onSelect, onReverted }: RevisionTimelineProps) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["designs", currentId, "revisions"],
+    queryFn: () => designsApi.getRevisions(currentId),
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: (revisionId: number) => designsApi.revertDesign(currentId, revisionId),
+    onSuccess: ({ design }) => {
+      queryClient.invalidateQueries({ queryKey: ["designs"] });
+      onReverted(design);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  const revisions = flatten(data?.revisions || []);
+  if (revisions.length < 2) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">Revision history</h3>
+      <ol className="space-y-1 max-h-64 overflow-y-auto">
+        {revisions.map(({ design, depth }) => {
+          const isSelected = design.id === selectedId;
+
+          return (
+            <li key={design.id} style={{ paddingLeft: `${depth * 16}px` }}>
+              <div
+                className={`flex items-center gap-3 p-2 rounded-lg ${isSelected ? "bg-blue-50 ring-1 ring-blue-200" : "hover:bg-gray-50"}`}
+              >
+                <button
+                  onClick={() => onSelect(design)}
+                  disabled={design.status !== "completed"}
+                  className="flex items-center gap-3 flex-1 min-w-0 text-left disabled:opacity-50"
+                >
+                  <div className="w-12 h-12 rounded overflow-hidden bg-gray-100 flex-shrink-0">
+                    {design.status === "completed" && (
+                      <DesignImage
+                        src={design.generatedImage}
+                        variants={design.generatedImageVariants}
+                        sizes="48px"
+                        alt=""
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {design.revisionOperation ? OPERATION_LABELS[design.revisionOperation] : "Original design"}
+                      {design.id === currentId && <span className="ml-2 text-xs text-blue-600">Current</span>}
+                      {design.status !== "completed" && <span className="ml-2 text-xs text-gray-500">{design.status}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(design.createdAt).toLocaleString()}</p>
+                  </div>
+                </button>
+
+                {isSelected && design.id !== currentId && (
+                  <button
+                    onClick={() => revertMutation.mutate(design.id)}
+                    disabled={revertMutation.isPending}
+                    className="px-3 py-1.5 rounded-lg bg-white border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1.5"
+                  >
+                    {revertMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Revert to this
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+      {revertMutation.error && (
+        <p className="text-sm text-red-700 mt-2">
+          {revertMutation.error instanceof Error ? revertMutation.error.message : "Revert failed"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Columns, Loader2, Lock } from "lucide-react";
+import type { DesignStyle } from "../lib/api";
+
+interface StyleComparePickerProps {
+  styles: DesignStyle[];
+  selectedStyleIds: number[];
+  onChange: (styleIds: number[]) => void;
+  onCompare: () => void;
+  userTier: string;
+  isSubmitting: boolean;
+  disabled?: boolean;
+  maxStyles?: number;
+}
+
+/**
+ * Pick several styles to render the same room photo in, one credit each
+ */
+export function StyleComparePicker({
+  styles,
+  selectedStyleIds,
+  onChange,
+  onCompare,
+  userTier,
+  isSubmitting,
+  disabled,
+  maxStyles = 10,
+}: StyleComparePickerProps) {
+  const toggleStyle = (styleId: number) => {
+    if (selectedStyleIds.includes(styleId)) {
+      onChange(selectedStyleIds.filter((id) => id !== styleId));
+    } else if (selectedStyleIds.length < maxStyles) {
+      onChange([...selectedStyleIds, styleId]);
+    }
+  };
+
+  const count = selectedStyleIds.length;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {styles.map((style) => {
+          const isLocked = userTier === "free" && style.tier !== "free";
+          const isSelected = selectedStyleIds.includes(style.id);
+
+          return (
+            <button
+              key={style.id}
+              onClick={() => toggleStyle(style.id)}
+              disabled={isLocked}
+              className={`
+                px-3 py-1.5 rounded-full text-sm font-medium transition-colors flex items-center gap-1
+                ${
+                  isSelected
+                    ? "bg-blue-600 text-white"
+                    : isLocked
+                    ? "bg-gray-100 text-gray-400 cursor-not-allowed"
+                    : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                }
+              `}
+            >
+              {isLocked && <Lock className="w-3 h-3" />}
+              {style.name}
+            </button>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onCompare}
+        disabled={count < 2 || isSubmitting || disabled}
+        className="mt-4 w-full py-3 rounded-lg bg-white border-2 border-blue-600 text-blue-700 font-semibold hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSubmitting ? <Loader2 className="w-5 h-5 animate-spin" /> : <Columns className="w-5 h-5" />}
+        {count < 2 ? "Pick at least 2 styles to compare" : `Compare ${count} Styles (${count} credits)`}
+      </button>
+      <p className="text-xs text-gray-500 mt-2">
+        Up to {maxStyles} styles. Credits for styles that fail to render are refunded.
+      </p>
+    </div>
+  );
+}
@@ -1,19 +1,63 @@
-import { Check, Lock } from "lucide-react";
-import type { DesignStyle } from "../lib/api";
+import { useState } from "react";
+import { Check, Lock, Blend } from "lucide-react";
+import type { DesignStyle, StyleWeight } from "../lib/api";
 
 interface StyleSelectorProps {
   styles: DesignStyle[];
   selectedStyleId: number | null;
   onSelectStyle: (styleId: number) => void;
   userTier: string;
+  // Blend mode (multi-select with weights) is offered when onBlendChange is given
+  blend?: StyleWeight[];
+  onBlendChange?: (blend: StyleWeight[]) => void;
+  maxBlendStyles?: number;
 }
 
+const DEFAULT_BLEND_WEIGHT = 50;
+
 export function StyleSelector({
   styles,
   selectedStyleId,
   onSelectStyle,
   userTier,
+  blend = [],
+  onBlendChange,
+  maxBlendStyles = 3,
 }: StyleSelectorProps) {
+  const [isBlending, setIsBlending] = useState(blend.length > 0);
+  const totalWeight = blend.reduce((sum, entry) => sum + entry.weight, 0);
+
+  const toggleBlendMode = () => {
+    if (!onBlendChange) return;
+
+    if (isBlending) {
+      // Keep the heaviest style selected when leaving blend mode
+      const dominant = [...blend].sort((a, b) => b.weight - a.weight)[0];
+      onBlendChange([]);
+      if (dominant) onSelectStyle(dominant.styleId);
+    } else {
+      onBlendChange(selectedStyleId ? [{ styleId: selectedStyleId, weight: DEFAULT_BLEND_WEIGHT }] : []);
+    }
+    setIsBlending(!isBlending);
+  };
+
+  const handleSelect = (styleId: number) => {
+    if (!isBlending || !onBlendChange) {
+      onSelectStyle(styleId);
+      return;
+    }
+
+    if (blend.some((entry) => entry.styleId === styleId)) {
+      onBlendChange(blend.filter((entry) => entry.styleId !== styleId));
+    } else if (blend.length < maxBlendStyles) {
+      onBlendChange([...blend, { styleId, weight: DEFAULT_BLEND_WEIGHT }]);
+    }
+  };
+
+  const setWeight = (styleId: number, weight: number) => {
+    onBlendChange?.(blend.map((entry) => (entry.styleId === styleId ? { ...entry, weight } : entry)));
+  };
+
   const canAccessStyle = (style: DesignStyle): boolean => {
     if (userTier === "professional") return true;
     if (userTier === "basic") return style.tier !== "professional";
@@ -35,19 +79,36 @@ export function StyleSelector({
 
   return (
     <div className="w-full">
-      <h3 className="text-lg font-semibold text-gray-900 mb-4">
-        Choose a Design Style
-      </h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          {isBlending ? `Blend up to ${maxBlendStyles} Styles` : "Choose a Design Style"}
+        </h3>
+
+        {onBlendChange && (
+          <button
+            onClick={toggleBlendMode}
+            className={`
+              px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-2
+              ${isBlending ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"}
+            `}
+          >
+            <Blend className="w-4 h-4" />
+            Blend styles
+          </button>
+        )}
+      </div>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
         {styles.map((style) => {
-          const isSelected = selectedStyleId === style.id;
+          const isSelected = isBlending
+            ? blend.some((entry) => entry.styleId === style.id)
+            : selectedStyleId === style.id;
           const hasAccess = canAccessStyle(style);
 
           return (
             <button
               key={style.id}
-              onClick={() => hasAccess && onSelectStyle(style.id)}
+              onClick={() => hasAccess && handleSelect(style.id)}
               disabled={!hasAccess}
               className={`
                 relative p-4 rounded-lg border-2 text-left transition-all
@@ -111,7 +172,34 @@ export function StyleSelector({
         })}
       </div>
 
-      {selectedStyleId && (
+      {/* Blend weights */}
+      {isBlending && blend.length > 0 && (
+        <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+          {blend.map((entry) => (
+            <div key={entry.styleId}>
+              <div className="flex justify-between text-sm text-blue-900 mb-1">
+                <span className="font-medium">{styles.find((s) => s.id === entry.styleId)?.name}</span>
+                <span>{Math.round((entry.weight / totalWeight) * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min={10}
+                max={100}
+                step={5}
+                value={entry.weight}
+                onChange={(e) => setWeight(entry.styleId, parseInt(e.target.value))}
+                className="w-full accent-blue-600"
+                aria-label={`Weight of ${styles.find((s) => s.id === entry.styleId)?.name}`}
+              />
+            </div>
+          ))}
+          {blend.length === 1 && (
+            <p className="text-xs text-blue-700">Select another style to blend with</p>
+          )}
+        </div>
+      )}
+
+      {!isBlending && selectedStyleId && (
         <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
           <p className="text-sm text-blue-700">
             <strong>Selected:</strong>{" "}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { X, Shuffle, Loader2 } from "lucide-react";
+import { LightingScenarioPicker } from "./LightingScenarioPicker";
+import { DesignImage } from "./DesignImage";
+import type { CreateVariationsRequest, Design, LightingScenario } from "../lib/api";
+
+interface VariationsDialogProps {
+  design: Design;
+  isSubmitting: boolean;
+  error?: string;
+  onSubmit: (options: CreateVariationsRequest) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: Array<{ key: "keepPalette" | "keepLayout" | "moreBold"; label: string; description: string }> = [
+  { key: "keepPalette", label: "Keep palette", description: "Reuse the colors of this design" },
+  { key: "keepLayout", label: "Keep layout", description: "Keep the furniture arrangement" },
+  { key: "moreBold", label: "More bold", description: "Stronger colors and statement pieces" },
+];
+
+/**
+ * Options for remixing a design into new variations
+ */
+export function VariationsDialog({ design, isSubmitting, error, onSubmit, onClose }: VariationsDialogProps) {
+  const [count, setCount] = useState(2);
+  const [options, setOptions] = useState({ keepPalette: false, keepLayout: false, moreBold: false });
+  const [lightingScenarios, setLightingScenarios] = useState<LightingScenario[]>([]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Create Variations</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <DesignImage
+            src={design.generatedImage}
+            variants={design.generatedImageVariants}
+            sizes="448px"
+            alt={design.title || "Design to remix"}
+            className="w-full aspect-video object-cover rounded-md"
+          />
+
+          {/* Count */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Number of variations</label>
+            <div className="flex gap-2">
+              {[1, 2, 3, 4].map((n) => (
+                <button
+                  key={n}
+                  onClick={() => setCount(n)}
+                  className={`
+                    w-10 h-10 rounded-lg font-medium transition-colors
+                    ${n === count ? "bg-blue-600 text-white" : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"}
+                  `}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Each variation uses 1 credit</p>
+          </div>
+
+          {/* Options */}
+          <div className="space-y-2">
+            {OPTIONS.map((option) => (
+              <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options[option.key]}
+                  onChange={(e) => setOptions({ ...options, [option.key]: e.target.checked })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {/* Lighting */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Lighting scenarios</label>
+            <LightingScenarioPicker scenarios={lightingScenarios} onChange={setLightingScenarios} />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() =>
+              onSubmit({ count, ...options, lightingScenarios: lightingScenarios.length > 0 ? lightingScenarios : undefined })
+            }
+            disabled={isSubmitting}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Shuffle className="w-4 h-4" />}
+            Create {count} Variation{count !== 1 ? "s" : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
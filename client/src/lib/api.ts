@@ -48,14 +48,100 @@ async function apiRequest<T>(
   return response.json();
 }
 
+/**
+ * Binary download (images) with the auth header
+ */
+async function fetchBlob(endpoint: string): Promise<Blob> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({
+      error: "Request Failed",
+      message: response.statusText,
+    }));
+    throw new Error(error.message || error.error || "Request failed");
+  }
+
+  return response.blob();
+}
+
+/**
+ * Server-sent events reader
+ * Uses fetch instead of EventSource so the auth header can be sent
+ */
+async function streamEvents(
+  endpoint: string,
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const token = await getAuthToken();
+
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    headers: {
+      Accept: "text/event-stream",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({
+      error: "Request Failed",
+      message: response.statusText,
+    }));
+    throw new Error(error.message || error.error || "Request failed");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      let data = "";
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+      }
+
+      if (data) {
+        onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+}
+
 /**
  * Design Types
  */
+export interface PaletteColor {
+  hex: string;
+  name: string; // e.g. "Navy"
+  family: string; // e.g. "blue"
+  coverage: number; // Percent of the image
+}
+
 export interface Design {
   id: number;
   userId: number;
-  originalImage: string;
-  generatedImage: string;
+  originalImage: string; // Signed URL, usable directly as an <img> src
+  generatedImage: string; // Signed URL (empty while generating)
   styleId: number;
   roomTypeId: number;
   customPrompt?: string;
@@ -63,12 +149,53 @@ export interface Design {
   title?: string;
   isFavorite: boolean;
   isPublic: boolean;
+  status: "generating" | "completed" | "failed";
+  parentDesignId?: number;
+  revisionOperation?: RevisionOperation | null; // How it was made from its parent design
+  palette?: PaletteColor[] | null; // Dominant colors, largest first
+  originalImageVariants?: ImageVariant[] | null; // Thumbnails for srcset (null for older designs)
+  generatedImageVariants?: ImageVariant[] | null;
+  tags?: string[] | null; // Searchable words like palette colors and lighting
+  creationTier?: string | null; // Plan the user was on when it was made
+  generationMode: GenerationMode; // "stage" designs carry a "Virtually Staged" label
+  variations?: Design[]; // Child variants (My Designs list only)
   metadata?: any;
   generationCost?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type RevisionOperation = "edit" | "variation" | "upscale" | "regenerate" | "revert";
+
+// A design in a lineage tree with the revisions made from it, oldest first
+export type RevisionNode = Design & { children: RevisionNode[] };
+
+export interface RevisionsResponse {
+  designId: number;
+  revisions: RevisionNode[]; // Normally one root; revisions of a deleted design become roots
+}
+
+export interface ImageVariant {
+  size: "small" | "medium" | "large";
+  width: number;
+  height: number;
+  webp: string; // Signed URL
+  jpeg: string; // Signed URL
+}
+
+export interface DesignView {
+  id: number;
+  designId: number;
+  kind: "angle" | "detail" | "lighting";
+  lightingScenario: LightingScenario | null;
+  promptSuffix: string;
+  quality: string;
+  position: number;
+  isFavorite: boolean;
+  imageUrl: string; // Signed URL, usable directly as an <img> src
+  createdAt: string;
+}
+
 export interface DesignStyle {
   id: number;
   name: string;
@@ -88,26 +215,142 @@ export interface RoomType {
   isActive: boolean;
 }
 
+export type AspectRatio = "square" | "4:3" | "16:9" | "portrait";
+
+export type GenerationMode = "restyle" | "stage";
+
+export type StagingDensity = "minimal" | "standard" | "full";
+
+export type LightingScenario = "daylight" | "golden-hour" | "evening" | "night";
+
+export type ComparisonLayout = "side-by-side" | "top-bottom" | "diagonal";
+
+export interface StyleWeight {
+  styleId: number;
+  weight: number; // Relative; the server normalizes weights to sum to 1
+}
+
 export interface GenerateDesignRequest {
   originalImage: string;
-  styleId: number;
+  styleId: number; // Dominant style when blending
+  styleBlend?: StyleWeight[]; // Blend of 2-3 styles; takes precedence over styleId
   roomTypeId: number;
   customPrompt?: string;
   generateAlternatives?: boolean;
+  provider?: "text-to-image" | "photo-conditioned" | "mock";
+  aspectRatio?: AspectRatio;
+  paletteLock?: string[]; // Up to 5 hex colors to steer the design toward
+  mode?: GenerationMode;
+  stagingDensity?: StagingDensity; // Staging only
+  lightingScenarios?: LightingScenario[]; // Relit copies of the design (paid plans)
+  exclude?: string[]; // Up to 8 elements that must not appear
+  preserve?: string[]; // Up to 8 elements of the room to keep as they are
 }
 
 export interface GenerateDesignResponse {
   success: boolean;
   design: {
     id: number;
-    generatedImage: string;
-    alternativeViews?: string[];
+    status: "generating";
     hasWatermark: boolean;
+    generationMode: GenerationMode;
     style: string;
     roomType: string;
     creditsRemaining: number;
-    metadata: any;
   };
+  statusUrl: string;
+  eventsUrl: string;
+}
+
+export interface EditDesignRequest {
+  mask: string; // PNG data URL - white strokes mark the region to regenerate
+  instruction: string;
+  provider?: "text-to-image" | "photo-conditioned" | "mock";
+}
+
+export interface EditDesignResponse {
+  success: boolean;
+  design: {
+    id: number;
+    parentDesignId: number;
+    status: "generating";
+    hasWatermark: boolean;
+    creditsRemaining: number;
+  };
+  statusUrl: string;
+  eventsUrl: string;
+}
+
+export interface RegenerateDesignRequest {
+  provider?: "text-to-image" | "photo-conditioned" | "mock";
+}
+
+export interface CreateVariationsRequest {
+  count?: number; // 1-4, defaults to 2
+  keepPalette?: boolean;
+  keepLayout?: boolean;
+  moreBold?: boolean;
+  lightingScenarios?: LightingScenario[]; // Rendered for each variation (paid plans)
+  provider?: "text-to-image" | "photo-conditioned" | "mock";
+}
+
+export interface CreateBatchRequest {
+  originalImage: string;
+  roomTypeId: number;
+  styleIds: number[]; // Up to 10; one design (and credit) per style
+  customPrompt?: string;
+  aspectRatio?: AspectRatio;
+}
+
+export interface CreateBatchResponse {
+  success: boolean;
+  batch: {
+    id: number;
+    designs: Array<{ id: number; styleId: number; status: "generating"; hasWatermark: boolean }>;
+    creditsRemaining: number;
+  };
+  batchUrl: string;
+}
+
+export interface DesignBatch {
+  id: number;
+  roomTypeId: number;
+  styleIds: number[];
+  creditCost: number;
+  createdAt: string;
+  status: "generating" | "completed";
+  progress: { total: number; generating: number; completed: number; failed: number };
+  designs: Design[];
+}
+
+export interface CreateVariationsResponse {
+  success: boolean;
+  parentDesignId: number;
+  variations: Array<{
+    id: number;
+    status: "generating";
+    hasWatermark: boolean;
+    statusUrl: string;
+    eventsUrl: string;
+  }>;
+  creditsRemaining: number;
+}
+
+export interface DesignStatus {
+  designId: number;
+  status: "generating" | "completed" | "failed";
+  stage: string;
+  progress: number;
+  message?: string;
+  error?: string;
+  errorCode?: string; // e.g. "PROVIDER_CONTENT_POLICY"
+  design?: Design;
+}
+
+export interface GenerationProgressEvent {
+  stage: string;
+  progress: number;
+  message?: string;
 }
 
 export interface PaginatedDesigns {
@@ -119,6 +362,27 @@ export interface PaginatedDesigns {
     totalPages: number;
     hasMore: boolean;
   };
+  facets?: DesignFacets; // My Designs only
+}
+
+// Counts for the My Designs filter sidebar; each facet ignores its own filter
+export interface DesignFacets {
+  createdWithin: { week: number; month: number; year: number };
+  colors: Array<{ family: string; count: number }>;
+  creationTiers: Array<{ tier: string; count: number }>;
+  visibility: { public: number; private: number };
+}
+
+// A deleted design waiting in the trash
+export type TrashedDesign = Design & {
+  deletedAt: string;
+  purgesAt: string; // When it will be deleted for good
+};
+
+export interface TrashResponse {
+  designs: TrashedDesign[];
+  retentionDays: number;
+  pagination: PaginatedDesigns["pagination"];
 }
 
 export interface UserProfile {
@@ -137,15 +401,43 @@ export interface UserProfile {
   };
 }
 
+export interface StorageQuota {
+  designs: number | null; // null = unlimited
+  bytes: number;
+}
+
+export interface RetentionNotice {
+  retentionDays: number;
+  action: "archive" | "delete";
+  expiringDesigns: number;
+  expiresAt: string | null;
+}
+
 export interface UserStats {
   stats: {
     totalDesigns: number;
     favoriteDesigns: number;
     totalCreditsUsed: number;
     totalCreditsPurchased: number;
+    storage: {
+      designs: number;
+      bytes: number;
+      quota: StorageQuota;
+    };
+    retention: RetentionNotice | null; // Free tier only
   };
 }
 
+export interface Notification {
+  id: number;
+  kind: "retention_warning";
+  title: string;
+  message: string;
+  data?: Record<string, any> | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
 export interface PricingTier {
   id: string;
   name: string;
@@ -183,6 +475,12 @@ export const designsApi = {
     styleId?: number;
     roomTypeId?: number;
     favoritesOnly?: boolean;
+    color?: string; // Palette color name, family or hex
+    q?: string; // Full-text search
+    createdAfter?: string; // ISO date
+    createdBefore?: string;
+    tier?: string; // Plan the design was made on
+    isPublic?: boolean;
   }) => {
     const query = new URLSearchParams();
     if (params?.page) query.append("page", params.page.toString());
@@ -190,20 +488,131 @@ export const designsApi = {
     if (params?.styleId) query.append("styleId", params.styleId.toString());
     if (params?.roomTypeId) query.append("roomTypeId", params.roomTypeId.toString());
     if (params?.favoritesOnly) query.append("favoritesOnly", "true");
+    if (params?.color) query.append("color", params.color);
+    if (params?.q) query.append("q", params.q);
+    if (params?.createdAfter) query.append("createdAfter", params.createdAfter);
+    if (params?.createdBefore) query.append("createdBefore", params.createdBefore);
+    if (params?.tier) query.append("tier", params.tier);
+    if (params?.isPublic !== undefined) query.append("isPublic", String(params.isPublic));
 
     return apiRequest<PaginatedDesigns>(`/designs/my-designs?${query.toString()}`);
   },
 
   getDesign: (id: number) => apiRequest<{ design: Design }>(`/designs/${id}`),
 
+  editDesign: (id: number, data: EditDesignRequest) =>
+    apiRequest<EditDesignResponse>(`/designs/${id}/edit`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  getRevisions: (id: number) => apiRequest<RevisionsResponse>(`/designs/${id}/revisions`),
+
+  // Same response shape as an edit: the revision renders in the background
+  regenerateDesign: (id: number, data: RegenerateDesignRequest = {}) =>
+    apiRequest<EditDesignResponse>(`/designs/${id}/regenerate`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  upscaleDesign: (id: number) =>
+    apiRequest<{ success: boolean; design: Design }>(`/designs/${id}/upscale`, {
+      method: "POST",
+    }),
+
+  // Copies an earlier revision into a new revision under this design
+  revertDesign: (id: number, revisionId: number) =>
+    apiRequest<{ success: boolean; design: Design }>(`/designs/${id}/revert`, {
+      method: "POST",
+      body: JSON.stringify({ revisionId }),
+    }),
+
+  createVariations: (id: number, data: CreateVariationsRequest) =>
+    apiRequest<CreateVariationsResponse>(`/designs/${id}/variations`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  getVariations: (id: number) => apiRequest<{ variations: Design[] }>(`/designs/${id}/variations`),
+
+  createBatch: (data: CreateBatchRequest) =>
+    apiRequest<CreateBatchResponse>("/designs/batch", {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  getBatch: (id: number) => apiRequest<{ batch: DesignBatch }>(`/designs/batches/${id}`),
+
+  getStatus: (id: number) => apiRequest<DesignStatus>(`/designs/${id}/status`),
+
+  getComparisonImage: (id: number, params: { layout: ComparisonLayout; labels?: boolean; branding?: boolean }) => {
+    const query = new URLSearchParams({ layout: params.layout });
+    if (params.labels === false) query.append("labels", "false");
+    if (params.branding) query.append("branding", "true");
+
+    return fetchBlob(`/designs/${id}/compare.png?${query.toString()}`);
+  },
+
+  getViews: (id: number) => apiRequest<{ views: DesignView[] }>(`/designs/${id}/views`),
+
+  getViewImage: (id: number, viewId: number, download = false) =>
+    fetchBlob(`/designs/${id}/views/${viewId}/image${download ? "?download=true" : ""}`),
+
+  updateView: (id: number, viewId: number, data: { isFavorite: boolean }) =>
+    apiRequest<{ success: boolean; view: DesignView }>(`/designs/${id}/views/${viewId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  deleteView: (id: number, viewId: number) =>
+    apiRequest<{ success: boolean; message: string }>(`/designs/${id}/views/${viewId}`, {
+      method: "DELETE",
+    }),
+
+  subscribeToEvents: (
+    id: number,
+    handlers: {
+      onProgress: (event: GenerationProgressEvent) => void;
+      onStatus: (status: DesignStatus) => void;
+    },
+    signal?: AbortSignal
+  ) => streamEvents(`/designs/${id}/events`, (event, data) => {
+    if (event === "progress") handlers.onProgress(data);
+    if (event === "status") handlers.onStatus(data);
+  }, signal),
+
   updateDesign: (id: number, data: { title?: string; isFavorite?: boolean; isPublic?: boolean }) =>
     apiRequest<{ success: boolean; design: Design }>(`/designs/${id}`, {
       method: "PATCH",
       body: JSON.stringify(data),
     }),
 
+  unlockDesign: (id: number) =>
+    apiRequest<{ success: boolean; design: Design }>(`/designs/${id}/unlock`, {
+      method: "POST",
+    }),
+
+  // Moves the design to the trash
   deleteDesign: (id: number) =>
-    apiRequest<{ success: boolean; message: string }>(`/designs/${id}`, {
+    apiRequest<{ success: boolean; message: string; purgesAt: string }>(`/designs/${id}`, {
+      method: "DELETE",
+    }),
+
+  getTrash: (params?: { page?: number; limit?: number }) => {
+    const query = new URLSearchParams();
+    if (params?.page) query.append("page", params.page.toString());
+    if (params?.limit) query.append("limit", params.limit.toString());
+
+    return apiRequest<TrashResponse>(`/designs/trash?${query.toString()}`);
+  },
+
+  restoreDesign: (id: number) =>
+    apiRequest<{ success: boolean; design: Design }>(`/designs/${id}/restore`, {
+      method: "POST",
+    }),
+
+  deleteDesignPermanently: (id: number) =>
+    apiRequest<{ success: boolean; message: string }>(`/designs/${id}/permanent`, {
       method: "DELETE",
     }),
 };
@@ -274,12 +683,20 @@ export const usersApi = {
     }),
 
   getStats: () => apiRequest<UserStats>("/users/stats"),
+
+  getNotifications: (params?: { unread?: boolean }) =>
+    apiRequest<{ notifications: Notification[] }>(`/users/notifications${params?.unread ? "?unread=true" : ""}`),
+
+  markNotificationRead: (id: number) =>
+    apiRequest<{ notification: Notification }>(`/users/notifications/${id}/read`, {
+      method: "POST",
+    }),
 };
 
 /**
- * Utility: Convert image file to base64
+ * Utility: Convert an image file or blob to base64
  */
-export async function fileToBase64(file: File): Promise<string> {
+export async function fileToBase64(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => resolve(reader.result as string);
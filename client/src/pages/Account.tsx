@@ -0,0 +1,169 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, HardDrive, Image, CreditCard, AlertTriangle } from "lucide-react";
+import { usersApi } from "../lib/api";
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) {
+    return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  }
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+}
+
+interface UsageBarProps {
+  label: string;
+  icon: typeof Image;
+  used: number;
+  limit: number | null; // null = unlimited
+  format?: (value: number) => string;
+}
+
+/**
+ * Usage against a quota, turning amber then red as it fills up
+ */
+function UsageBar({ label, icon: Icon, used, limit, format = String }: UsageBarProps) {
+  const percent = limit ? Math.min(100, (used / limit) * 100) : 0;
+  const color = percent >= 90 ? "bg-red-500" : percent >= 75 ? "bg-amber-500" : "bg-blue-600";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="flex items-center gap-2 font-medium text-gray-700">
+          <Icon className="w-4 h-4" />
+          {label}
+        </span>
+        <span className="text-gray-600">
+          {format(used)} {limit === null ? "(unlimited)" : `of ${format(limit)}`}
+        </span>
+      </div>
+      {limit !== null && (
+        <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+          <div className={`h-full rounded-full ${color}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function Account() {
+  const { data: profile, isLoading: profileLoading } = useQuery({
+    queryKey: ["user", "me"],
+    queryFn: () => usersApi.getMe(),
+  });
+
+  const { data: statsData, isLoading: statsLoading } = useQuery({
+    queryKey: ["user", "stats"],
+    queryFn: () => usersApi.getStats(),
+  });
+
+  if (profileLoading || statsLoading || !profile || !statsData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const { user } = profile;
+  const { stats } = statsData;
+  const { storage, retention } = stats;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <h1 className="text-3xl font-bold text-gray-900">Account</h1>
+          <p className="text-gray-600 mt-1">{user.displayName || user.email}</p>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Retention warning (free tier) */}
+        {retention && retention.expiringDesigns > 0 && (
+          <div className="flex items-start gap-3 p-4 rounded-lg border border-amber-300 bg-amber-50 text-amber-900">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium">
+                {retention.expiringDesigns} design(s) older than {retention.retentionDays} days will be{" "}
+                {retention.action === "delete" ? "moved to the trash" : "archived"}
+                {retention.expiresAt && ` on ${new Date(retention.expiresAt).toLocaleDateString()}`}.
+              </p>
+              <p className="mt-1">
+                Download anything you want to keep, or{" "}
+                <Link href="/pricing">
+                  <a className="underline font-medium">upgrade your plan</a>
+                </Link>{" "}
+                to keep all your designs
+                {retention.action === "archive" && " and restore archived ones"}.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Plan */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Plan</h2>
+              <p className="text-gray-600 capitalize">{user.tier}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-bold text-gray-900">{user.creditsBalance}</p>
+              <p className="text-sm text-gray-600">credits left</p>
+            </div>
+          </div>
+          {user.tier === "free" && (
+            <Link href="/pricing">
+              <a className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-medium rounded-lg hover:shadow-lg transition-all">
+                <CreditCard className="w-4 h-4" />
+                Upgrade
+              </a>
+            </Link>
+          )}
+        </div>
+
+        {/* Storage */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-5">
+          <h2 className="text-lg font-semibold text-gray-900">Storage</h2>
+          <UsageBar label="Designs" icon={Image} used={storage.designs} limit={storage.quota.designs} />
+          <UsageBar
+            label="Images"
+            icon={HardDrive}
+            used={storage.bytes}
+            limit={storage.quota.bytes}
+            format={formatBytes}
+          />
+          {retention && (
+            <p className="text-sm text-gray-500">
+              Free plan designs are kept for {retention.retentionDays} days. You'll get a notification before any are{" "}
+              {retention.action === "delete" ? "moved to the trash" : "archived"}.
+            </p>
+          )}
+        </div>
+
+        {/* Activity */}
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Activity</h2>
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+            <div>
+              <dt className="text-sm text-gray-600">Designs</dt>
+              <dd className="text-xl font-bold text-gray-900">{stats.totalDesigns}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-600">Favorites</dt>
+              <dd className="text-xl font-bold text-gray-900">{stats.favoriteDesigns}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-600">Credits used</dt>
+              <dd className="text-xl font-bold text-gray-900">{stats.totalCreditsUsed}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-600">Credits bought</dt>
+              <dd className="text-xl font-bold text-gray-900">{stats.totalCreditsPurchased}</dd>
+            </div>
+          </dl>
+        </div>
+      </div>
+    </div>
+  );
+}
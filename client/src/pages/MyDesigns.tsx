@@ -1,15 +1,49 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Loader2, Grid, List, Heart, Filter } from "lucide-react";
-import { DesignCard } from "../components/DesignCard";
+import { Link } from "wouter";
+import { Loader2, Grid, List, Heart, Filter, Search, X, Trash2 } from "lucide-react";
+import { DesignStack } from "../components/DesignStack";
+import { VariationsDialog } from "../components/VariationsDialog";
+import { DesignViewerDialog } from "../components/DesignViewerDialog";
+import {
+  DesignFilterSidebar,
+  CREATED_WITHIN_DAYS,
+  NO_DESIGN_FILTERS,
+  type DesignFilters,
+} from "../components/DesignFilterSidebar";
 import { designsApi } from "../lib/api";
-import type { Design } from "../lib/api";
+import type { CreateVariationsRequest, Design } from "../lib/api";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export function MyDesigns() {
   const queryClient = useQueryClient();
   const [page, setPage] = useState(1);
   const [favoritesOnly, setFavoritesOnly] = useState(false);
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
+  const [remixDesign, setRemixDesign] = useState<Design | null>(null);
+  const [viewDesign, setViewDesign] = useState<Design | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<DesignFilters>(NO_DESIGN_FILTERS);
+
+  const applySearch = (value: string) => {
+    setSearchInput(value);
+    setSearch(value.trim());
+    setPage(1);
+  };
+
+  const applyFilters = (value: DesignFilters) => {
+    setFilters(value);
+    setPage(1);
+  };
+
+  const isFiltered =
+    search !== "" ||
+    filters.createdWithin !== null ||
+    filters.color !== "" ||
+    filters.tier !== null ||
+    filters.isPublic !== null;
 
   // Fetch designs
   const {
@@ -17,13 +51,31 @@ export function MyDesigns() {
     isLoading,
     error,
   } = useQuery({
-    queryKey: ["designs", "my-designs", page, favoritesOnly],
+    queryKey: ["designs", "my-designs", page, favoritesOnly, search, filters],
     queryFn: () =>
       designsApi.getMyDesigns({
         page,
         limit: 12,
         favoritesOnly,
+        q: search || undefined,
+        color: filters.color || undefined,
+        createdAfter: filters.createdWithin
+          ? new Date(Date.now() - CREATED_WITHIN_DAYS[filters.createdWithin] * DAY_MS).toISOString()
+          : undefined,
+        tier: filters.tier ?? undefined,
+        isPublic: filters.isPublic ?? undefined,
       }),
+    // Keep the current page and sidebar up while a new filter loads
+    placeholderData: (previous) => previous,
+    // Keep polling while any design or variation is still rendering
+    refetchInterval: (query) =>
+      query.state.data?.designs.some(
+        (design) =>
+          design.status === "generating" ||
+          design.variations?.some((variation) => variation.status === "generating")
+      )
+        ? 5000
+        : false,
   });
 
   // Toggle favorite mutation
@@ -43,6 +95,16 @@ export function MyDesigns() {
     },
   });
 
+  // Create variations mutation
+  const createVariationsMutation = useMutation({
+    mutationFn: ({ id, options }: { id: number; options: CreateVariationsRequest }) =>
+      designsApi.createVariations(id, options),
+    onSuccess: () => {
+      setRemixDesign(null);
+      queryClient.invalidateQueries({ queryKey: ["designs", "my-designs"] });
+    },
+  });
+
   const designs = data?.designs || [];
   const pagination = data?.pagination;
 
@@ -59,8 +121,14 @@ export function MyDesigns() {
               </p>
             </div>
 
-            {/* View mode toggle */}
+            {/* Trash link and view mode toggle */}
             <div className="flex items-center gap-2">
+              <Link href="/trash">
+                <a className="flex items-center gap-2 px-3 py-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors">
+                  <Trash2 className="w-5 h-5" />
+                  Trash
+                </a>
+              </Link>
               <button
                 onClick={() => setViewMode("grid")}
                 className={`
@@ -116,132 +184,201 @@ export function MyDesigns() {
               />
               {favoritesOnly ? "Showing Favorites" : "Show All"}
             </button>
+
+            {/* Full-text search */}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                applySearch(searchInput);
+              }}
+              className="relative flex-1 max-w-md"
+            >
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search designs (kitchen, walnut, golden hour)"
+                className="pl-9 pr-8 py-2 w-full rounded-lg border border-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {search && (
+                <button
+                  type="button"
+                  onClick={() => applySearch("")}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  aria-label="Clear search"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </form>
           </div>
         </div>
       </div>
 
       {/* Content */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {isLoading && (
-          <div className="flex justify-center items-center py-20">
-            <Loader2 className="w-12 h-12 animate-spin text-blue-500" />
-          </div>
-        )}
-
-        {error && (
-          <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
-            <p className="text-red-800 font-medium">Failed to load designs</p>
-            <p className="text-sm text-red-700 mt-1">
-              {error instanceof Error ? error.message : "An error occurred"}
-            </p>
-          </div>
-        )}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 flex flex-col lg:flex-row gap-8">
+        {/* Filter sidebar */}
+        <aside className="lg:w-56 flex-shrink-0">
+          <DesignFilterSidebar facets={data?.facets} filters={filters} onChange={applyFilters} />
+        </aside>
 
-        {!isLoading && !error && designs.length === 0 && (
-          <div className="text-center py-20">
-            <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 rounded-full mb-4">
-              <Grid className="w-8 h-8 text-gray-400" />
+        <div className="flex-1 min-w-0">
+          {isLoading && (
+            <div className="flex justify-center items-center py-20">
+              <Loader2 className="w-12 h-12 animate-spin text-blue-500" />
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">
-              {favoritesOnly ? "No favorite designs yet" : "No designs yet"}
-            </h3>
-            <p className="text-gray-600 mb-6">
-              {favoritesOnly
-                ? "Mark your favorite designs by clicking the heart icon"
-                : "Create your first AI-generated interior design"}
-            </p>
-            <a
-              href="/visualizer"
-              className="inline-block px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Create Design
-            </a>
-          </div>
-        )}
-
-        {!isLoading && !error && designs.length > 0 && (
-          <>
-            {/* Designs grid */}
-            <div
-              className={
-                viewMode === "grid"
-                  ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
-                  : "space-y-4"
-              }
-            >
-              {designs.map((design) => (
-                <DesignCard
-                  key={design.id}
-                  design={design}
-                  onToggleFavorite={(id, isFavorite) =>
-                    toggleFavoriteMutation.mutate({ id, isFavorite })
-                  }
-                  onDelete={(id) => deleteMutation.mutate(id)}
-                />
-              ))}
+          )}
+
+          {error && (
+            <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-800 font-medium">Failed to load designs</p>
+              <p className="text-sm text-red-700 mt-1">
+                {error instanceof Error ? error.message : "An error occurred"}
+              </p>
             </div>
+          )}
 
-            {/* Pagination */}
-            {pagination && pagination.totalPages > 1 && (
-              <div className="mt-8 flex items-center justify-center gap-2">
+          {!isLoading && !error && designs.length === 0 && (
+            <div className="text-center py-20">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 rounded-full mb-4">
+                <Grid className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                {isFiltered ? "No designs match" : favoritesOnly ? "No favorite designs yet" : "No designs yet"}
+              </h3>
+              <p className="text-gray-600 mb-6">
+                {isFiltered
+                  ? "Try other words or fewer filters"
+                  : favoritesOnly
+                  ? "Mark your favorite designs by clicking the heart icon"
+                  : "Create your first AI-generated interior design"}
+              </p>
+              {isFiltered ? (
                 <button
-                  onClick={() => setPage((p) => Math.max(1, p - 1))}
-                  disabled={page === 1}
-                  className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => {
+                    applySearch("");
+                    applyFilters(NO_DESIGN_FILTERS);
+                  }}
+                  className="inline-block px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
                 >
-                  Previous
+                  Clear search and filters
                 </button>
-
-                <div className="flex items-center gap-1">
-                  {Array.from({ length: pagination.totalPages }, (_, i) => i + 1)
-                    .filter((p) => {
-                      // Show first, last, current, and adjacent pages
-                      return (
-                        p === 1 ||
-                        p === pagination.totalPages ||
-                        Math.abs(p - page) <= 1
-                      );
-                    })
-                    .map((p, index, arr) => {
-                      // Add ellipsis
-                      const showEllipsis =
-                        index > 0 && p - arr[index - 1] > 1;
-
-                      return (
-                        <div key={p} className="flex items-center">
-                          {showEllipsis && (
-                            <span className="px-2 text-gray-500">...</span>
-                          )}
-                          <button
-                            onClick={() => setPage(p)}
-                            className={`
-                              w-10 h-10 rounded-lg font-medium transition-colors
-                              ${
-                                p === page
-                                  ? "bg-blue-600 text-white"
-                                  : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
-                              }
-                            `}
-                          >
-                            {p}
-                          </button>
-                        </div>
-                      );
-                    })}
-                </div>
-
-                <button
-                  onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
-                  disabled={page === pagination.totalPages}
-                  className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              ) : (
+                <a
+                  href="/visualizer"
+                  className="inline-block px-6 py-3 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors"
                 >
-                  Next
-                </button>
+                  Create Design
+                </a>
+              )}
+            </div>
+          )}
+
+          {!isLoading && !error && designs.length > 0 && (
+            <>
+              {/* Designs grid */}
+              <div
+                className={
+                  viewMode === "grid"
+                    ? "grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6"
+                    : "space-y-4"
+                }
+              >
+                {designs.map((design) => (
+                  <DesignStack
+                    key={design.id}
+                    design={design}
+                    onToggleFavorite={(id, isFavorite) =>
+                      toggleFavoriteMutation.mutate({ id, isFavorite })
+                    }
+                    onDelete={(id) => deleteMutation.mutate(id)}
+                    onRemix={(design) => {
+                      createVariationsMutation.reset();
+                      setRemixDesign(design);
+                    }}
+                    onSelectColor={(paletteColor) => applyFilters({ ...filters, color: paletteColor.name.toLowerCase() })}
+                    onView={setViewDesign}
+                  />
+                ))}
               </div>
-            )}
-          </>
-        )}
+
+              {/* Pagination */}
+              {pagination && pagination.totalPages > 1 && (
+                <div className="mt-8 flex items-center justify-center gap-2">
+                  <button
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page === 1}
+                    className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Previous
+                  </button>
+
+                  <div className="flex items-center gap-1">
+                    {Array.from({ length: pagination.totalPages }, (_, i) => i + 1)
+                      .filter((p) => {
+                        // Show first, last, current, and adjacent pages
+                        return (
+                          p === 1 ||
+                          p === pagination.totalPages ||
+                          Math.abs(p - page) <= 1
+                        );
+                      })
+                      .map((p, index, arr) => {
+                        // Add ellipsis
+                        const showEllipsis =
+                          index > 0 && p - arr[index - 1] > 1;
+
+                        return (
+                          <div key={p} className="flex items-center">
+                            {showEllipsis && (
+                              <span className="px-2 text-gray-500">...</span>
+                            )}
+                            <button
+                              onClick={() => setPage(p)}
+                              className={`
+                                w-10 h-10 rounded-lg font-medium transition-colors
+                                ${
+                                  p === page
+                                    ? "bg-blue-600 text-white"
+                                    : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                                }
+                              `}
+                            >
+                              {p}
+                            </button>
+                          </div>
+                        );
+                      })}
+                  </div>
+
+                  <button
+                    onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+                    disabled={page === pagination.totalPages}
+                    className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
       </div>
+
+      {/* Before/after viewer */}
+      {viewDesign && <DesignViewerDialog design={viewDesign} onClose={() => setViewDesign(null)} />}
+
+      {/* Variations dialog */}
+      {remixDesign && (
+        <VariationsDialog
+          design={remixDesign}
+          isSubmitting={createVariationsMutation.isPending}
+          error={createVariationsMutation.error instanceof Error ? createVariationsMutation.error.message : undefined}
+          onSubmit={(options) => createVariationsMutation.mutate({ id: remixDesign.id, options })}
+          onClose={() => setRemixDesign(null)}
+        />
+      )}
     </div>
   );
 }
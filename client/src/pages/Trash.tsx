@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2, Trash2, RotateCcw, ArrowLeft } from "lucide-react";
+import { DesignImage } from "../components/DesignImage";
+import { designsApi } from "../lib/api";
+
+export function Trash() {
+  const queryClient = useQueryClient();
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["designs", "trash", page],
+    queryFn: () => designsApi.getTrash({ page, limit: 12 }),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["designs"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: number) => designsApi.restoreDesign(id),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => designsApi.deleteDesignPermanently(id),
+    onSuccess: invalidate,
+  });
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Delete this design for good? This action cannot be undone.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const designs = data?.designs || [];
+  const pagination = data?.pagination;
+  const busyId = restoreMutation.isPending
+    ? restoreMutation.variables
+    : deleteMutation.isPending
+    ? deleteMutation.variables
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link href="/my-designs">
+            <a className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 mb-2">
+              <ArrowLeft className="w-4 h-4" />
+              My Designs
+            </a>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+          <p className="text-gray-600 mt-1">
+            {data
+              ? `Deleted designs are removed for good after ${data.retentionDays} days`
+              : "Designs you've deleted"}
+          </p>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading && (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="w-12 h-12 animate-spin text-blue-500" />
+          </div>
+        )}
+
+        {error && (
+          <div className="p-6 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">Failed to load the trash</p>
+            <p className="text-sm text-red-700 mt-1">
+              {error instanceof Error ? error.message : "An error occurred"}
+            </p>
+          </div>
+        )}
+
+        {!isLoading && !error && designs.length === 0 && (
+          <div className="text-center py-20">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 rounded-full mb-4">
+              <Trash2 className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">The trash is empty</h3>
+            <p className="text-gray-600">Designs you delete show up here until they're removed for good</p>
+          </div>
+        )}
+
+        {designs.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {designs.map((design) => (
+              <div
+                key={design.id}
+                className={`bg-white rounded-lg shadow-md overflow-hidden border border-gray-200 ${
+                  busyId === design.id ? "opacity-50 pointer-events-none" : ""
+                }`}
+              >
+                <div className="relative aspect-square bg-gray-100">
+                  {design.status === "completed" && (
+                    <DesignImage
+                      src={design.generatedImage}
+                      variants={design.generatedImageVariants}
+                      sizes="(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                      alt={design.title || "Deleted design"}
+                      className="w-full h-full object-cover grayscale"
+                    />
+                  )}
+                </div>
+                <div className="p-4">
+                  <p className="font-medium text-gray-900 truncate">{design.title || "Untitled design"}</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Removed for good on {new Date(design.purgesAt).toLocaleDateString()}
+                  </p>
+                  <div className="flex items-center gap-2 mt-4">
+                    <button
+                      onClick={() => restoreMutation.mutate(design.id)}
+                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handleDelete(design.id)}
+                      className="p-2 rounded-lg border border-gray-300 text-gray-600 hover:text-red-600 hover:border-red-300 transition-colors"
+                      aria-label="Delete for good"
+                      title="Delete for good"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="mt-8 flex items-center justify-center gap-4">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={!pagination.hasMore}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,84 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Sparkles, Loader2, ArrowRight, Coins } from "lucide-react";
 import { useAuth } from "../hooks/use-auth";
 import { ImageUploader } from "../components/ImageUploader";
 import { StyleSelector } from "../components/StyleSelector";
 import { RoomTypeSelector } from "../components/RoomTypeSelector";
-import { designsApi, stylesApi, roomTypesApi, usersApi } from "../lib/api";
-import type { GenerateDesignRequest } from "../lib/api";
+import { PaletteLockPicker } from "../components/PaletteLockPicker";
+import { StyleComparePicker } from "../components/StyleComparePicker";
+import { BatchComparisonGrid } from "../components/BatchComparisonGrid";
+import { LightingScenarioPicker } from "../components/LightingScenarioPicker";
+import { PromptConstraintInput } from "../components/PromptConstraintInput";
+import { DesignViewSwitcher } from "../components/DesignViewSwitcher";
+import { designsApi, stylesApi, roomTypesApi, usersApi, imageUrlToBase64 } from "../lib/api";
+import type {
+  AspectRatio,
+  StyleWeight,
+  GenerationMode,
+  StagingDensity,
+  LightingScenario,
+  GenerateDesignRequest,
+  GenerationProgressEvent,
+  DesignStatus,
+} from "../lib/api";
+
+const ASPECT_RATIOS: Array<{ value: AspectRatio; label: string }> = [
+  { value: "square", label: "Square" },
+  { value: "4:3", label: "4:3" },
+  { value: "16:9", label: "16:9" },
+  { value: "portrait", label: "Portrait" },
+];
+
+const GENERATION_MODES: Array<{ value: GenerationMode; label: string; description: string }> = [
+  { value: "restyle", label: "Restyle", description: "Redesign a furnished room in a new style" },
+  { value: "stage", label: "Virtual Staging", description: "Furnish an empty room without changing walls, windows or floors" },
+];
+
+const STAGING_DENSITIES: Array<{ value: StagingDensity; label: string }> = [
+  { value: "minimal", label: "Minimal" },
+  { value: "standard", label: "Standard" },
+  { value: "full", label: "Full" },
+];
+
+// Output resolution by tier (see pricingTiers in server/stripe.ts)
+const TIER_RESOLUTION: Record<string, string> = {
+  free: "720p",
+  basic: "1080p",
+  india: "1080p",
+  professional: "4K",
+};
+
+// Remembers the in-flight design so a reload can pick the result back up
+const PENDING_DESIGN_KEY = "aifyinteriors:pendingDesignId";
+const MAX_CUSTOM_PROMPT_LENGTH = 500; // Same limit as the server (shared/schema.ts)
+
+function loadPendingDesignId(): number | null {
+  const stored = localStorage.getItem(PENDING_DESIGN_KEY);
+  return stored ? parseInt(stored) || null : null;
+}
 
 export function Visualizer() {
   const { user } = useAuth();
   const [originalImage, setOriginalImage] = useState<string>("");
   const [selectedStyleId, setSelectedStyleId] = useState<number | null>(null);
+  const [styleBlend, setStyleBlend] = useState<StyleWeight[]>([]);
   const [selectedRoomTypeId, setSelectedRoomTypeId] = useState<number | null>(null);
   const [customPrompt, setCustomPrompt] = useState<string>("");
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>("square");
+  const [paletteLock, setPaletteLock] = useState<string[]>([]);
+  const [mode, setMode] = useState<GenerationMode>("restyle");
+  const [stagingDensity, setStagingDensity] = useState<StagingDensity>("standard");
+  const [lightingScenarios, setLightingScenarios] = useState<LightingScenario[]>([]);
+  const [exclude, setExclude] = useState<string[]>([]);
+  const [preserve, setPreserve] = useState<string[]>([]);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [resultDesignId, setResultDesignId] = useState<number | null>(null);
+  const [pendingDesignId, setPendingDesignId] = useState<number | null>(loadPendingDesignId);
+  const [progress, setProgress] = useState<GenerationProgressEvent | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  const [compareStyleIds, setCompareStyleIds] = useState<number[]>([]);
+  const [batchId, setBatchId] = useState<number | null>(null);
 
   // Fetch styles
   const { data: stylesData, isLoading: stylesLoading } = useQuery({
@@ -39,33 +103,126 @@ export function Visualizer() {
   const generateMutation = useMutation({
     mutationFn: (data: GenerateDesignRequest) => designsApi.generate(data),
     onSuccess: (response) => {
-      setGeneratedImage(response.design.generatedImage);
+      localStorage.setItem(PENDING_DESIGN_KEY, response.design.id.toString());
+      setPendingDesignId(response.design.id);
       refetchProfile(); // Refresh credits balance
     },
   });
 
+  // Render the same photo in several styles for comparison
+  const batchMutation = useMutation({
+    mutationFn: () =>
+      designsApi.createBatch({
+        originalImage,
+        roomTypeId: selectedRoomTypeId!,
+        styleIds: compareStyleIds,
+        customPrompt: customPrompt || undefined,
+        aspectRatio,
+      }),
+    onSuccess: (response) => {
+      setBatchId(response.batch.id);
+      refetchProfile(); // Refresh credits balance
+    },
+  });
+
+  // Follow the background job for the pending design until it finishes
+  useEffect(() => {
+    if (!pendingDesignId || !user) return;
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const handleStatus = (status: DesignStatus) => {
+      if (status.status === "generating") return;
+
+      localStorage.removeItem(PENDING_DESIGN_KEY);
+      setPendingDesignId(null);
+      setProgress(null);
+
+      if (status.status === "completed" && status.design) {
+        setGeneratedImage(status.design.generatedImage);
+        setResultDesignId(status.designId);
+        // Upright, converted copy the server stored - kept as base64 so it can be resubmitted
+        imageUrlToBase64(status.design.originalImage).then(setOriginalImage).catch(() => {});
+      } else {
+        setGenerationError(status.error || status.message || "Generation failed");
+      }
+      refetchProfile(); // Refresh credits balance (failed jobs are refunded)
+    };
+
+    const follow = async () => {
+      try {
+        await designsApi.subscribeToEvents(
+          pendingDesignId,
+          { onProgress: setProgress, onStatus: handleStatus },
+          controller.signal
+        );
+      } catch (error) {
+        if (controller.signal.aborted) return;
+
+        // Stream dropped - check status and reconnect if still running
+        try {
+          const status = await designsApi.getStatus(pendingDesignId);
+          handleStatus(status);
+          if (status.status !== "generating") return;
+        } catch (statusError) {
+          console.error("Failed to fetch design status:", statusError);
+        }
+        retryTimer = setTimeout(follow, 3000);
+      }
+    };
+
+    follow();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [pendingDesignId, user]);
+
+  // While blending, the heaviest style stands in as the selected style
+  const handleBlendChange = (blend: StyleWeight[]) => {
+    setStyleBlend(blend);
+    const dominant = [...blend].sort((a, b) => b.weight - a.weight)[0];
+    setSelectedStyleId(dominant ? dominant.styleId : null);
+  };
+
   const handleGenerate = async () => {
     if (!originalImage || !selectedStyleId || !selectedRoomTypeId) {
       alert("Please upload an image and select both a style and room type");
       return;
     }
 
+    setGeneratedImage(null);
+    setGenerationError(null);
+    setResultDesignId(null);
+
     const request: GenerateDesignRequest = {
       originalImage,
       styleId: selectedStyleId,
+      styleBlend: styleBlend.length > 1 ? styleBlend : undefined,
       roomTypeId: selectedRoomTypeId,
       customPrompt: customPrompt || undefined,
       generateAlternatives: false,
+      aspectRatio,
+      paletteLock: paletteLock.length > 0 ? paletteLock : undefined,
+      mode,
+      stagingDensity: mode === "stage" ? stagingDensity : undefined,
+      lightingScenarios: lightingScenarios.length > 0 ? lightingScenarios : undefined,
+      exclude: exclude.length > 0 ? exclude : undefined,
+      preserve: preserve.length > 0 ? preserve : undefined,
     };
 
     generateMutation.mutate(request);
   };
 
+  const isGenerating = generateMutation.isPending || pendingDesignId !== null;
+
   const canGenerate =
     originalImage &&
     selectedStyleId &&
     selectedRoomTypeId &&
-    !generateMutation.isPending;
+    !isGenerating;
 
   const userTier = userProfile?.user?.tier || "free";
   const creditsBalance = userProfile?.user?.creditsBalance || 0;
@@ -133,6 +290,55 @@ export function Visualizer() {
                 onImageSelect={setOriginalImage}
                 currentImage={originalImage}
               />
+
+              {originalImage && (
+                <div className="mt-4">
+                  <div className="grid grid-cols-2 gap-2">
+                    {GENERATION_MODES.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => setMode(option.value)}
+                        className={`
+                          p-3 rounded-lg text-left transition-colors border-2
+                          ${mode === option.value ? "border-blue-600 bg-blue-50" : "border-gray-200 hover:border-gray-300"}
+                        `}
+                      >
+                        <p className="text-sm font-semibold text-gray-900">{option.label}</p>
+                        <p className="text-xs text-gray-600 mt-1">{option.description}</p>
+                      </button>
+                    ))}
+                  </div>
+
+                  {mode === "stage" && (
+                    <div className="mt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Furniture density
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {STAGING_DENSITIES.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() => setStagingDensity(option.value)}
+                            className={`
+                              px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                              ${
+                                stagingDensity === option.value
+                                  ? "bg-blue-600 text-white"
+                                  : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                              }
+                            `}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2">
+                        Staged photos carry a "Virtually Staged" label, as listing sites require
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Step 2: Select Style */}
@@ -156,6 +362,8 @@ export function Visualizer() {
                     selectedStyleId={selectedStyleId}
                     onSelectStyle={setSelectedStyleId}
                     userTier={userTier}
+                    blend={styleBlend}
+                    onBlendChange={handleBlendChange}
                   />
                 )}
               </div>
@@ -203,11 +411,70 @@ export function Visualizer() {
                   placeholder="Add specific requirements (e.g., 'add plants', 'warm lighting', 'minimalist furniture')..."
                   className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
                   rows={4}
-                  maxLength={200}
+                  maxLength={MAX_CUSTOM_PROMPT_LENGTH}
                 />
                 <p className="text-xs text-gray-500 mt-2">
-                  {customPrompt.length}/200 characters
+                  {customPrompt.length}/{MAX_CUSTOM_PROMPT_LENGTH} characters
                 </p>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Aspect ratio
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {ASPECT_RATIOS.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => setAspectRatio(option.value)}
+                        className={`
+                          px-4 py-2 rounded-lg text-sm font-medium transition-colors
+                          ${
+                            aspectRatio === option.value
+                              ? "bg-blue-600 text-white"
+                              : "bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }
+                        `}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Delivered at {TIER_RESOLUTION[userTier] || "720p"} on your plan
+                  </p>
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Color palette
+                  </label>
+                  <PaletteLockPicker colors={paletteLock} onChange={setPaletteLock} />
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Lighting scenarios
+                  </label>
+                  <LightingScenarioPicker
+                    scenarios={lightingScenarios}
+                    onChange={setLightingScenarios}
+                    locked={userTier === "free"}
+                  />
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Leave out
+                  </label>
+                  <PromptConstraintInput items={exclude} onChange={setExclude} placeholder="e.g. rugs, TV" />
+                </div>
+
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Keep as is
+                  </label>
+                  <PromptConstraintInput items={preserve} onChange={setPreserve} placeholder="e.g. fireplace, wood floor" />
+                </div>
               </div>
             )}
 
@@ -227,7 +494,7 @@ export function Visualizer() {
                   }
                 `}
               >
-                {generateMutation.isPending ? (
+                {isGenerating ? (
                   <>
                     <Loader2 className="w-6 h-6 animate-spin" />
                     Generating Your Design...
@@ -235,12 +502,33 @@ export function Visualizer() {
                 ) : (
                   <>
                     <Sparkles className="w-6 h-6" />
-                    Generate Design
+                    {mode === "stage" ? "Stage Room" : "Generate Design"}
                     <ArrowRight className="w-6 h-6" />
                   </>
                 )}
               </button>
             )}
+
+            {/* Compare several styles in one batch */}
+            {originalImage && selectedRoomTypeId && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Compare Styles</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Render this photo in several styles at once and see them side by side
+                </p>
+                <StyleComparePicker
+                  styles={stylesData?.styles || []}
+                  selectedStyleIds={compareStyleIds}
+                  onChange={setCompareStyleIds}
+                  onCompare={() => batchMutation.mutate()}
+                  userTier={userTier}
+                  isSubmitting={batchMutation.isPending}
+                />
+                {batchMutation.isError && (
+                  <p className="mt-3 text-sm text-red-700">{batchMutation.error?.message}</p>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Right column - Result */}
@@ -250,7 +538,7 @@ export function Visualizer() {
                 Generated Design
               </h2>
 
-              {!generatedImage && !generateMutation.isPending && (
+              {!generatedImage && !isGenerating && (
                 <div className="aspect-square bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg flex items-center justify-center">
                   <div className="text-center p-8">
                     <Sparkles className="w-16 h-16 mx-auto text-gray-400 mb-4" />
@@ -261,15 +549,21 @@ export function Visualizer() {
                 </div>
               )}
 
-              {generateMutation.isPending && (
+              {isGenerating && (
                 <div className="aspect-square bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center">
-                  <div className="text-center p-8">
+                  <div className="text-center p-8 w-full max-w-sm">
                     <Loader2 className="w-16 h-16 mx-auto text-blue-600 animate-spin mb-4" />
                     <p className="text-lg font-semibold text-blue-900 mb-2">
-                      Creating your design...
+                      {progress?.message || "Creating your design..."}
                     </p>
+                    <div className="w-full h-2 bg-white/70 rounded-full overflow-hidden mb-2">
+                      <div
+                        className="h-full bg-gradient-to-r from-blue-600 to-purple-600 transition-all duration-500"
+                        style={{ width: `${progress?.progress ?? 0}%` }}
+                      />
+                    </div>
                     <p className="text-sm text-blue-700">
-                      This may take 20-30 seconds
+                      This may take 20-30 seconds. You can leave this page and come back.
                     </p>
                   </div>
                 </div>
@@ -277,11 +571,19 @@ export function Visualizer() {
 
               {generatedImage && (
                 <div className="space-y-4">
-                  <img
-                    src={generatedImage}
-                    alt="Generated design"
-                    className="w-full rounded-lg shadow-md"
-                  />
+                  {resultDesignId ? (
+                    <DesignViewSwitcher
+                      designId={resultDesignId}
+                      image={generatedImage}
+                      originalImage={originalImage || undefined}
+                    />
+                  ) : (
+                    <img
+                      src={generatedImage}
+                      alt="Generated design"
+                      className="w-full rounded-lg shadow-md"
+                    />
+                  )}
 
                   {/* Success message */}
                   <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
@@ -290,9 +592,7 @@ export function Visualizer() {
                     </p>
                     <p className="text-sm text-green-700 mt-1">
                       Credits remaining:{" "}
-                      {userTier === "free"
-                        ? generateMutation.data?.design.creditsRemaining
-                        : "Unlimited"}
+                      {userTier === "free" ? creditsBalance : "Unlimited"}
                     </p>
                   </div>
 
@@ -308,6 +608,8 @@ export function Visualizer() {
                     <button
                       onClick={() => {
                         setGeneratedImage(null);
+                        setGenerationError(null);
+                        setResultDesignId(null);
                         setOriginalImage("");
                         setSelectedStyleId(null);
                         setSelectedRoomTypeId(null);
@@ -322,13 +624,14 @@ export function Visualizer() {
               )}
 
               {/* Error message */}
-              {generateMutation.isError && (
+              {(generateMutation.isError || generationError) && (
                 <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
                   <p className="text-red-800 font-medium">
                     ❌ Generation failed
                   </p>
                   <p className="text-sm text-red-700 mt-1">
-                    {generateMutation.error?.message ||
+                    {generationError ||
+                      generateMutation.error?.message ||
                       "An unexpected error occurred"}
                   </p>
                 </div>
@@ -336,6 +639,17 @@ export function Visualizer() {
             </div>
           </div>
         </div>
+
+        {batchId && (
+          <div className="mt-8">
+            <BatchComparisonGrid
+              batchId={batchId}
+              styles={stylesData?.styles || []}
+              onClose={() => setBatchId(null)}
+              onSettled={refetchProfile}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
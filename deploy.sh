@@ -48,12 +48,15 @@ gcloud run deploy $SERVICE_NAME \
   --min-instances 0 \
   --concurrency 80 \
   --set-cloudsql-instances=$PROJECT_ID:$REGION:microsaas-db \
-  --set-env-vars=NODE_ENV=production \
+  --set-env-vars=NODE_ENV=production,BLOB_STORE=s3,S3_ENDPOINT=https://storage.googleapis.com,S3_REGION=auto,S3_BUCKET=aifyinteriors-blobs \
   --set-secrets=DATABASE_URL=DATABASE_URL:latest \
   --set-secrets=OPENAI_API_KEY=OPENAI_API_KEY:latest \
   --set-secrets=STRIPE_SECRET_KEY=STRIPE_SECRET_KEY:latest \
   --set-secrets=STRIPE_WEBHOOK_SECRET=STRIPE_WEBHOOK_SECRET:latest \
   --set-secrets=SESSION_SECRET=SESSION_SECRET:latest \
+  --set-secrets=BLOB_URL_SECRET=BLOB_URL_SECRET:latest \
+  --set-secrets=S3_ACCESS_KEY_ID=S3_ACCESS_KEY_ID:latest \
+  --set-secrets=S3_SECRET_ACCESS_KEY=S3_SECRET_ACCESS_KEY:latest \
   --set-secrets=VITE_FIREBASE_API_KEY=VITE_FIREBASE_API_KEY:latest \
   --set-secrets=VITE_FIREBASE_AUTH_DOMAIN=VITE_FIREBASE_AUTH_DOMAIN:latest \
   --set-secrets=VITE_FIREBASE_PROJECT_ID=VITE_FIREBASE_PROJECT_ID:latest \
@@ -2,7 +2,12 @@ import express, { Request, Response, NextFunction } from "express";
 import cors from "cors";
 import helmet from "helmet";
 import { testDatabaseConnection } from "./db";
+import { getBlobStore } from "./services/blobs";
 import { handleStripeWebhook } from "./stripe-webhook";
+import { scheduleJobRecovery } from "./services/generationQueue.service";
+import { scheduleRetentionSweep } from "./services/retention.service";
+import { scheduleTrashPurge } from "./services/trash.service";
+import { recoverPendingUpgrades } from "./services/upgrade.service";
 
 // Import routes
 import designsRouter from "./routes/designs";
@@ -10,6 +15,8 @@ import stylesRouter from "./routes/styles";
 import roomTypesRouter from "./routes/roomTypes";
 import subscriptionsRouter from "./routes/subscriptions";
 import usersRouter from "./routes/users";
+import adminRouter from "./routes/admin";
+import blobsRouter from "./routes/blobs";
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -92,6 +99,8 @@ app.use("/api/styles", stylesRouter);
 app.use("/api/room-types", roomTypesRouter);
 app.use("/api/subscriptions", subscriptionsRouter);
 app.use("/api/users", usersRouter);
+app.use("/api/admin", adminRouter);
+app.use("/api/blobs", blobsRouter);
 
 /**
  * Serve static files from Vite build in production
@@ -141,6 +150,23 @@ async function startServer() {
     console.log("🔌 Testing database connection...");
     await testDatabaseConnection();
 
+    // Fail now rather than on the first upload if image storage isn't configured
+    getBlobStore();
+
+    // Keep leases on this server's generations; fail and refund ones whose server stopped
+    scheduleJobRecovery();
+
+    // Warn about, then archive or delete, old free-tier designs
+    scheduleRetentionSweep();
+
+    // Permanently delete designs that have been in the trash for TRASH_RETENTION_DAYS
+    scheduleTrashPurge();
+
+    // Finish unlocking and restoring designs for upgrades a previous shutdown cut off
+    recoverPendingUpgrades().catch((error) => {
+      console.error("Upgrade recovery failed:", error);
+    });
+
     // Start listening
     app.listen(PORT, () => {
       console.log("\n✅ AIfy Interiors Server Started");
@@ -157,15 +183,45 @@ async function startServer() {
 
       console.log("\n📋 Available API Routes:");
       console.log("   POST   /api/designs/generate");
+      console.log("   POST   /api/designs/batch");
+      console.log("   GET    /api/designs/batches/:id");
       console.log("   GET    /api/designs/my-designs");
+      console.log("   GET    /api/designs/trash");
       console.log("   GET    /api/designs/:id");
+      console.log("   POST   /api/designs/:id/edit");
+      console.log("   POST   /api/designs/:id/variations");
+      console.log("   GET    /api/designs/:id/variations");
+      console.log("   GET    /api/designs/:id/revisions");
+      console.log("   POST   /api/designs/:id/regenerate");
+      console.log("   POST   /api/designs/:id/upscale");
+      console.log("   POST   /api/designs/:id/revert");
+      console.log("   GET    /api/designs/:id/compare.png");
+      console.log("   GET    /api/designs/:id/views");
+      console.log("   GET    /api/designs/:id/views/:viewId/image");
+      console.log("   PATCH  /api/designs/:id/views/:viewId");
+      console.log("   DELETE /api/designs/:id/views/:viewId");
+      console.log("   GET    /api/designs/:id/status");
+      console.log("   GET    /api/designs/:id/events");
+      console.log("   POST   /api/designs/:id/unlock");
       console.log("   PATCH  /api/designs/:id");
       console.log("   DELETE /api/designs/:id");
+      console.log("   POST   /api/designs/:id/restore");
+      console.log("   DELETE /api/designs/:id/permanent");
       console.log("   GET    /api/styles");
       console.log("   GET    /api/room-types");
       console.log("   GET    /api/subscriptions/pricing");
       console.log("   POST   /api/subscriptions/create-checkout");
       console.log("   GET    /api/users/me");
+      console.log("   GET    /api/users/stats");
+      console.log("   GET    /api/users/notifications");
+      console.log("   POST   /api/users/notifications/:id/read");
+      console.log("   GET    /api/admin/prompt-templates");
+      console.log("   POST   /api/admin/prompt-templates");
+      console.log("   PATCH  /api/admin/prompt-templates/:id");
+      console.log("   GET    /api/admin/prompt-templates/outcomes");
+      console.log("   GET    /api/admin/costs");
+      console.log("   GET    /api/admin/moderation-events");
+      console.log("   GET    /api/blobs/:key");
       console.log("   POST   /api/stripe/webhook");
       console.log("");
     });
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * Middleware to restrict an endpoint to administrators
+ * Admins are listed by email in ADMIN_EMAILS (comma-separated)
+ * Must be used after requireAuth middleware
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user) {
+    res.status(401).json({
+      error: "Unauthorized",
+      message: "Authentication required",
+    });
+    return;
+  }
+
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!adminEmails.includes(req.user.email.toLowerCase())) {
+    res.status(403).json({
+      error: "Forbidden",
+      message: "Administrator access required",
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,229 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/requireAuth";
+import { requireAdmin } from "../middleware/requireAdmin";
+import { storage } from "../storage";
+import { PROMPT_VARIABLES, getTemplateVariables } from "../services/prompt.service";
+
+const router = Router();
+
+router.use(requireAuth, requireAdmin);
+
+/**
+ * Request validation schemas
+ */
+const templateBodySchema = z
+  .string()
+  .min(1, "Template body is required")
+  .max(4000)
+  .refine(
+    (body) => getTemplateVariables(body).every((name) => (PROMPT_VARIABLES as readonly string[]).includes(name)),
+    { message: `Templates may only use these variables: ${PROMPT_VARIABLES.map((v) => `{${v}}`).join(", ")}` }
+  );
+
+const createTemplateSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  body: templateBodySchema,
+  styleId: z.number().int().positive().nullable().optional(),
+  roomTypeId: z.number().int().positive().nullable().optional(),
+  weight: z.number().int().min(0).max(10000).optional().default(100),
+  isActive: z.boolean().optional().default(true),
+});
+
+const costReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  tier: z.string().max(50).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50),
+});
+
+// Bodies are immutable - changing wording means creating a new version
+const updateTemplateSchema = z.object({
+  description: z.string().max(1000).optional(),
+  weight: z.number().int().min(0).max(10000).optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * GET /api/admin/prompt-templates
+ * List every prompt template version
+ */
+router.get("/prompt-templates", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const templates = await storage.getPromptTemplates();
+
+    res.json({
+      templates: templates.map((template) => ({
+        ...template,
+        variables: getTemplateVariables(template.body),
+      })),
+    });
+  } catch (error: any) {
+    console.error("Error fetching prompt templates:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch prompt templates",
+    });
+  }
+});
+
+/**
+ * POST /api/admin/prompt-templates
+ * Create a new version of a prompt template (version number is assigned)
+ */
+router.post("/prompt-templates", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = createTemplateSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const data = validation.data;
+    const version = (await storage.getLatestPromptTemplateVersion(data.name)) + 1;
+
+    const template = await storage.createPromptTemplate({
+      ...data,
+      styleId: data.styleId ?? null,
+      roomTypeId: data.roomTypeId ?? null,
+      version,
+    });
+
+    console.log(`📝 Prompt template ${template.name} v${template.version} created by ${req.user!.email}`);
+
+    res.status(201).json({ success: true, template });
+  } catch (error: any) {
+    console.error("Error creating prompt template:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to create prompt template",
+    });
+  }
+});
+
+/**
+ * PATCH /api/admin/prompt-templates/:id
+ * Adjust A/B weight, activation or description of a template version
+ */
+router.patch("/prompt-templates/:id", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const templateId = parseInt(req.params.id as string);
+
+    if (isNaN(templateId)) {
+      res.status(400).json({ error: "Invalid template ID" });
+      return;
+    }
+
+    const validation = updateTemplateSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const template = await storage.updatePromptTemplate(templateId, validation.data);
+
+    if (!template) {
+      res.status(404).json({ error: "Prompt template not found" });
+      return;
+    }
+
+    res.json({ success: true, template });
+  } catch (error: any) {
+    console.error("Error updating prompt template:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update prompt template",
+    });
+  }
+});
+
+/**
+ * GET /api/admin/prompt-templates/outcomes
+ * Favorite and regeneration rates per template version
+ */
+router.get("/prompt-templates/outcomes", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const outcomes = await storage.getPromptTemplateOutcomes();
+
+    res.json({
+      outcomes: outcomes.map((outcome) => ({
+        ...outcome,
+        favoriteRate: outcome.totalDesigns ? outcome.favoritedDesigns / outcome.totalDesigns : 0,
+        regenerationRate: outcome.totalDesigns ? outcome.regeneratedDesigns / outcome.totalDesigns : 0,
+      })),
+    });
+  } catch (error: any) {
+    console.error("Error fetching prompt template outcomes:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch prompt template outcomes",
+    });
+  }
+});
+
+/**
+ * GET /api/admin/costs
+ * Provider spend by day, tier, style and user (defaults to the last 30 days)
+ * Pass ?tier=free to see which free users cost the most
+ */
+router.get("/costs", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = costReportQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { tier, limit } = validation.data;
+    const to = validation.data.to || new Date();
+    const from = validation.data.from || new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const report = await storage.getGenerationCostReport({ from, to, tier, userLimit: limit });
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      tier: tier || null,
+      ...report,
+    });
+  } catch (error: any) {
+    console.error("Error building cost report:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to build cost report",
+    });
+  }
+});
+
+/**
+ * GET /api/admin/moderation-events
+ * Recent prompt rewrites and rejections (audit log)
+ */
+router.get("/moderation-events", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const action = req.query.action as string | undefined;
+
+    const events = await storage.getModerationEvents({ limit, action });
+
+    res.json({ events });
+  } catch (error: any) {
+    console.error("Error fetching moderation events:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch moderation events",
+    });
+  }
+});
+
+export default router;
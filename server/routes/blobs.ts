@@ -0,0 +1,49 @@
+import { Router, Request, Response } from "express";
+import { verifyImageUrl } from "../services/blob.service";
+import { getBlobStore } from "../services/blobs";
+
+const router = Router();
+
+/**
+ * GET /api/blobs/:key?expires=&signature=
+ * Serve a stored image through a signed URL from the designs API
+ * The signature stands in for the auth header, so <img> tags can load it.
+ */
+router.get("/:key", async (req: Request, res: Response): Promise<void> => {
+  try {
+    const key = req.params.key as string;
+    const expires = parseInt(req.query.expires as string);
+    const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+
+    if (!verifyImageUrl(key, expires, signature)) {
+      res.status(403).json({
+        error: "Access denied",
+        message: "This image link is invalid or has expired",
+      });
+      return;
+    }
+
+    const blob = await getBlobStore().get(key);
+    if (!blob) {
+      res.status(404).json({ error: "Image not found" });
+      return;
+    }
+
+    // Content-addressed, so the bytes behind a key never change
+    res.setHeader("Content-Type", blob.contentType);
+    res.setHeader("Cache-Control", `private, max-age=${Math.max(0, expires - Math.floor(Date.now() / 1000))}, immutable`);
+    res.setHeader("ETag", `"${key}"`);
+    if (req.query.download === "true") {
+      res.setHeader("Content-Disposition", `attachment; filename="aifyinteriors-${key.slice(0, 12)}${key.slice(key.indexOf("."))}"`);
+    }
+    res.send(blob.data);
+  } catch (error: any) {
+    console.error("Error serving blob:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch image",
+    });
+  }
+});
+
+export default router;
@@ -1,23 +1,38 @@
 import { Router, Request, Response } from "express";
 import { z } from "zod";
-import { requireAuth } from "../middleware/requireAuth";
+import { requireAuth, optionalAuth } from "../middleware/requireAuth";
 import { requireCredits } from "../middleware/requireCredits";
-import { storage } from "../storage";
-import { generateRoomDesign } from "../services/dalle.service";
+import { storage, type DesignListItem } from "../storage";
+import { enqueueGenerationJob, getGenerationProgress, subscribeToGeneration } from "../services/generationQueue.service";
 import { deductCredits, refundCredits } from "../services/credits.service";
-import type { InsertDesign } from "../../shared/schema";
+import { moderatePrompt, moderatePromptList, PromptRejectedError } from "../services/moderation.service";
+import { normalizeUploadedImage, InvalidImageError } from "../services/upload.service";
+import { normalizeColorQuery } from "../services/palette.service";
+import { normalizeStyleWeights } from "../services/styleBlend.service";
+import { buildComparisonImage, COMPARISON_LAYOUTS } from "../services/compare.service";
+import { brushMaskToEditMask, InvalidMaskError, type EditMask } from "../services/image.service";
+import { storeImage, loadImage, readImage, signImageUrl, imageByteSize, deleteUnreferencedImages } from "../services/blob.service";
+import { ensureStorageAvailable, StorageQuotaError } from "../services/storageQuota.service";
+import { getPurgeDate, getTrashRetentionDays, deleteFromTrash } from "../services/trash.service";
+import { buildRevisionTree } from "../services/revision.service";
+import { getOutputTarget, resizeForDelivery } from "../services/resolution.service";
+import { createImageVariants, signImageVariants } from "../services/thumbnail.service";
+import { unlockDesign } from "../services/watermark.service";
+import { getImageProvider, getEditProvider, getStagingProvider, getLightingProvider, getProviderAvailability, UnsupportedProviderError, type ImageGenerationProvider } from "../services/providers";
+import { aspectRatioSchema, generationModeSchema, stagingDensitySchema, lightingScenarioSchema, hexColorSchema, promptConstraintSchema, styleWeightSchema, designGenerationSchema, designEditSchema, designVariationSchema, designRegenerateSchema, designRevertSchema, designBatchSchema, updateDesignViewSchema, type AspectRatio, type LightingScenario, type PromptConstraints, type Design, type DesignView, type DesignStyle, type InsertDesign } from "../../shared/schema";
 
 const router = Router();
 
 /**
  * Request validation schemas
  */
-const generateDesignSchema = z.object({
-  originalImage: z.string().min(1, "Original image is required"),
-  styleId: z.number().int().positive("Valid style ID is required"),
-  roomTypeId: z.number().int().positive("Valid room type ID is required"),
-  customPrompt: z.string().optional(),
-  generateAlternatives: z.boolean().optional().default(false),
+const booleanQuery = (defaultValue: boolean) =>
+  z.enum(["true", "false"]).default(defaultValue ? "true" : "false").transform((value) => value === "true");
+
+const comparisonQuerySchema = z.object({
+  layout: z.enum(COMPARISON_LAYOUTS).default("side-by-side"),
+  labels: booleanQuery(true),
+  branding: booleanQuery(false),
 });
 
 const updateDesignSchema = z.object({
@@ -28,7 +43,8 @@ const updateDesignSchema = z.object({
 
 /**
  * POST /api/designs/generate
- * Generate a new interior design using DALL-E 3
+ * Start generating a new interior design with the requested image provider
+ * Responds 202 with the design ID; the image is rendered by a background worker
  */
 router.post(
   "/generate",
@@ -37,7 +53,7 @@ router.post(
   async (req: Request, res: Response): Promise<void> => {
     try {
       // Validate request body
-      const validation = generateDesignSchema.safeParse(req.body);
+      const validation = designGenerationSchema.safeParse(req.body);
       if (!validation.success) {
         res.status(400).json({
           error: "Validation Error",
@@ -46,15 +62,33 @@ router.post(
         return;
       }
 
-      const { originalImage, styleId, roomTypeId, customPrompt, generateAlternatives } = validation.data;
+      const { roomTypeId, customPrompt, generateAlternatives, provider, aspectRatio, paletteLock, mode, stagingDensity } = validation.data;
+      const lightingScenarios = uniqueScenarios(validation.data.lightingScenarios);
+
+      // Staging has to keep the photographed room and lighting views relight the render,
+      // so either needs a provider that works from the photo
+      // Fail fast while the provider is unhealthy - nothing has been charged yet
+      const resolveProvider = () => {
+        if (mode === "stage") return getStagingProvider(provider);
+        return lightingScenarios ? getLightingProvider(provider) : getImageProvider(provider);
+      };
+      if (!resolveAvailableProvider(res, resolveProvider)) {
+        return;
+      }
+
       const userId = req.user!.id;
       const userTier = req.user!.tier;
 
-      // Verify style and room type exist
-      const style = await storage.getDesignStyle(styleId);
+      // A blend's heaviest style is the design's style; a single style is a blend of one
+      const styleWeights = normalizeStyleWeights(validation.data.styleBlend || [{ styleId: validation.data.styleId, weight: 1 }]);
+      const styleId = styleWeights[0].styleId;
+      const styleBlend = styleWeights.length > 1 ? styleWeights : undefined;
+
+      // Verify styles and room type exist
+      const styles = await Promise.all(styleWeights.map((entry) => storage.getDesignStyle(entry.styleId)));
       const roomType = await storage.getRoomType(roomTypeId);
 
-      if (!style) {
+      if (styles.some((style) => !style)) {
         res.status(404).json({ error: "Style not found" });
         return;
       }
@@ -64,17 +98,60 @@ router.post(
         return;
       }
 
-      // Check tier access for premium styles
-      if (style.tier !== "free" && userTier === "free") {
+      // Check tier access for every premium style in the blend
+      const lockedStyle = styles.find((style) => style!.tier !== "free" && userTier === "free");
+      if (lockedStyle) {
         res.status(403).json({
           error: "Premium Style Requires Subscription",
-          message: `The "${style.name}" style is only available for paid subscribers.`,
+          message: `The "${lockedStyle.name}" style is only available for paid subscribers.`,
           upgradeUrl: "/pricing",
         });
         return;
       }
 
-      console.log(`🎨 Generating design for user ${userId}: ${style.name} ${roomType.name}`);
+      if (!ensureLightingAllowed(res, userTier, lightingScenarios)) {
+        return;
+      }
+
+      const styleName = styles.map((style) => style!.name).join(" + ");
+
+      // Moderate the custom prompt and constraints BEFORE any credit is deducted
+      let safePrompt: string | undefined;
+      let exclude: string[] | undefined;
+      let preserve: string[] | undefined;
+      try {
+        safePrompt = await moderatePrompt(customPrompt, { userId, source: "generate" });
+        exclude = await moderatePromptList(validation.data.exclude, { userId, source: "generate-exclude" });
+        preserve = await moderatePromptList(validation.data.preserve, { userId, source: "generate-preserve" });
+      } catch (error: any) {
+        if (error instanceof PromptRejectedError) {
+          sendPromptRejection(res, error);
+          return;
+        }
+        throw error;
+      }
+
+      // Normalize the room photo BEFORE any credit is deducted; it's stored only after the charge goes through
+      let originalImage: string;
+      try {
+        originalImage = (await normalizeUploadedImage(validation.data.originalImage)).image;
+      } catch (error: any) {
+        if (error instanceof InvalidImageError) {
+          sendInvalidImage(res, error);
+          return;
+        }
+        throw error;
+      }
+
+      // Each design counts its room photo towards the storage quota
+      const originalBytes = await imageByteSize(originalImage);
+      if (!(await ensureStorageQuota(res, userId, userTier, 1, originalBytes))) {
+        return;
+      }
+
+      const operation = mode === "stage" ? "virtual staging" : "design generation";
+
+      console.log(`🎨 Generating design for user ${userId}: ${styleName} ${roomType.name} (${mode})`);
 
       // Deduct credits BEFORE generation (atomic operation)
       let creditTransaction;
@@ -82,7 +159,7 @@ router.post(
         creditTransaction = await deductCredits(
           userId,
           1,
-          `${style.name} ${roomType.name} design generation`
+          `${styleName} ${roomType.name} ${operation}`
         );
       } catch (error: any) {
         res.status(403).json({
@@ -93,35 +170,28 @@ router.post(
         return;
       }
 
-      // Generate design with DALL-E 3
-      let generationResult;
+      // Create the design row right away and render it in the background
       let designId: number | undefined;
 
       try {
-        generationResult = await generateRoomDesign(
-          {
-            originalImage,
-            styleId,
-            roomTypeId,
-            customPrompt,
-            generateAlternatives: generateAlternatives && userTier !== "free", // Free tier gets 1 image only
-          },
-          userId
-        );
+        // Stored only now, so rejected requests leave nothing behind
+        // The row keeps its blob key; the job works from the data URL
+        const originalImageKey = await storeImage(originalImage);
+        const originalImageVariants = await createImageVariants(originalImage);
 
-        // Save design to database
         const hasWatermark = userTier === "free";
 
         const designData: InsertDesign = {
           userId,
-          originalImage,
-          generatedImage: generationResult.generatedImage,
+          originalImage: originalImageKey,
+          originalImageVariants,
           styleId,
           roomTypeId,
-          customPrompt: customPrompt || null,
+          generationMode: mode,
+          prompt: safePrompt || null,
+          status: "generating",
           hasWatermark,
-          metadata: generationResult.metadata,
-          generationCost: generationResult.metadata.estimatedCost,
+          creationTier: userTier,
           isFavorite: false,
           isPublic: false,
         };
@@ -129,36 +199,63 @@ router.post(
         const savedDesign = await storage.createDesign(designData);
         designId = savedDesign.id;
 
-        console.log(`✅ Design ${designId} generated successfully for user ${userId}`);
+        await storage.updateCreditTransaction(creditTransaction.id, { designId });
+
+        enqueueGenerationJob({
+          kind: "generate",
+          designId,
+          userId,
+          userTier,
+          creditCost: 1,
+          hasWatermark,
+          isStaged: mode === "stage",
+          request: {
+            originalImage,
+            styleId,
+            roomTypeId,
+            customPrompt: safePrompt,
+            // Free tier gets 1 image only; staging keeps the photographed camera angle
+            generateAlternatives: generateAlternatives && userTier !== "free" && mode !== "stage",
+            provider,
+            aspectRatio,
+            paletteLock,
+            styleBlend,
+            mode,
+            stagingDensity: stagingDensity || "standard",
+            lightingScenarios,
+            exclude,
+            preserve,
+          },
+        });
+
+        console.log(`⏳ Design ${designId} queued for generation for user ${userId}`);
 
-        // Return success response
-        res.status(201).json({
+        // Return accepted response - clients poll status or subscribe to events
+        res.status(202).json({
           success: true,
           design: {
             id: savedDesign.id,
-            generatedImage: savedDesign.generatedImage,
-            alternativeViews: generationResult.alternativeViews,
+            status: savedDesign.status,
             hasWatermark: savedDesign.hasWatermark,
-            style: style.name,
+            generationMode: savedDesign.generationMode,
+            style: styleName,
             roomType: roomType.name,
             creditsRemaining: creditTransaction.balanceAfter,
-            metadata: generationResult.metadata,
           },
+          statusUrl: `/api/designs/${savedDesign.id}/status`,
+          eventsUrl: `/api/designs/${savedDesign.id}/events`,
         });
       } catch (error: any) {
-        console.error("❌ Design generation failed:", error);
+        console.error("❌ Failed to queue design generation:", error);
 
         // Refund credits on failure
-        await refundCredits(
-          userId,
-          designId,
-          1,
-          `Refund for failed ${style.name} ${roomType.name} generation`
-        );
+        if (await failUnqueuedDesign(designId)) {
+          await refundCredits(userId, designId, 1);
+        }
 
         res.status(500).json({
           error: "Design Generation Failed",
-          message: "Failed to generate design. Your credit has been refunded.",
+          message: "Failed to start design generation. Your credit has been refunded.",
           details: error.message,
         });
       }
@@ -173,181 +270,1767 @@ router.post(
 );
 
 /**
- * GET /api/designs/my-designs
- * Get all designs for the authenticated user
+ * POST /api/designs/batch
+ * Render one room photo in several styles for side-by-side comparison
+ * The whole batch is charged up front; each failed item refunds its own credit
  */
-router.get("/my-designs", requireAuth, async (req: Request, res: Response): Promise<void> => {
-  try {
-    const userId = req.user!.id;
+router.post(
+  "/batch",
+  requireAuth,
+  requireCredits(1),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const validation = designBatchSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Validation Error",
+          details: validation.error.errors,
+        });
+        return;
+      }
 
-    // Parse query parameters for filtering and pagination
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const styleId = req.query.styleId ? parseInt(req.query.styleId as string) : undefined;
-    const roomTypeId = req.query.roomTypeId ? parseInt(req.query.roomTypeId as string) : undefined;
-    const favoritesOnly = req.query.favoritesOnly === "true";
+      const { roomTypeId, customPrompt, provider, aspectRatio } = validation.data;
 
-    const offset = (page - 1) * limit;
+      const styleIds = Array.from(new Set(validation.data.styleIds));
+      const userId = req.user!.id;
+      const userTier = req.user!.tier;
 
-    // Get user designs with filters
-    const designs = await storage.getUserDesigns(userId, {
-      limit,
-      offset,
-      styleId,
-      roomTypeId,
-      favoritesOnly,
-    });
+      // Verify styles and room type exist
+      const styles = await Promise.all(styleIds.map((styleId) => storage.getDesignStyle(styleId)));
+      const roomType = await storage.getRoomType(roomTypeId);
 
-    // Get total count for pagination
-    const totalCount = await storage.getUserDesignsCount(userId, {
-      styleId,
-      roomTypeId,
-      favoritesOnly,
-    });
+      if (styles.some((style) => !style)) {
+        res.status(404).json({ error: "Style not found" });
+        return;
+      }
 
-    res.json({
-      designs,
-      pagination: {
-        page,
-        limit,
-        totalCount,
-        totalPages: Math.ceil(totalCount / limit),
-        hasMore: offset + designs.length < totalCount,
-      },
-    });
-  } catch (error: any) {
-    console.error("Error fetching user designs:", error);
-    res.status(500).json({
-      error: "Internal Server Error",
-      message: "Failed to fetch designs",
-    });
-  }
-});
+      if (!roomType) {
+        res.status(404).json({ error: "Room type not found" });
+        return;
+      }
 
-/**
- * GET /api/designs/:id
- * Get a single design by ID (with ownership check)
- */
-router.get("/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
-  try {
-    const designId = parseInt(req.params.id);
-    const userId = req.user!.id;
+      // Check tier access for every premium style in the batch
+      const lockedStyle = styles.find((style) => style!.tier !== "free" && userTier === "free");
+      if (lockedStyle) {
+        res.status(403).json({
+          error: "Premium Style Requires Subscription",
+          message: `The "${lockedStyle.name}" style is only available for paid subscribers.`,
+          upgradeUrl: "/pricing",
+        });
+        return;
+      }
 
-    if (isNaN(designId)) {
-      res.status(400).json({ error: "Invalid design ID" });
-      return;
-    }
+      // Moderate the custom prompt BEFORE any credit is deducted
+      let safePrompt: string | undefined;
+      try {
+        safePrompt = await moderatePrompt(customPrompt, { userId, source: "batch" });
+      } catch (error: any) {
+        if (error instanceof PromptRejectedError) {
+          sendPromptRejection(res, error);
+          return;
+        }
+        throw error;
+      }
 
-    const design = await storage.getDesign(designId);
+      if (!resolveAvailableProvider(res, () => getImageProvider(provider))) {
+        return;
+      }
 
-    if (!design) {
-      res.status(404).json({ error: "Design not found" });
-      return;
-    }
+      // Normalize the room photo BEFORE any credit is deducted; it's stored only after the charge goes through
+      let originalImage: string;
+      try {
+        originalImage = (await normalizeUploadedImage(validation.data.originalImage)).image;
+      } catch (error: any) {
+        if (error instanceof InvalidImageError) {
+          sendInvalidImage(res, error);
+          return;
+        }
+        throw error;
+      }
 
-    // Check ownership or public access
-    if (design.userId !== userId && !design.isPublic) {
-      res.status(403).json({ error: "Access denied" });
-      return;
-    }
+      // The designs in the batch share one stored room photo
+      const count = styleIds.length;
+      const originalBytes = await imageByteSize(originalImage);
+      if (!(await ensureStorageQuota(res, userId, userTier, count, originalBytes))) {
+        return;
+      }
 
-    res.json({ design });
-  } catch (error: any) {
-    console.error("Error fetching design:", error);
-    res.status(500).json({
-      error: "Internal Server Error",
-      message: "Failed to fetch design",
-    });
+      // Deduct credits for the whole batch BEFORE generation (atomic operation)
+      let creditTransaction;
+      try {
+        creditTransaction = await deductCredits(userId, count, `${roomType.name} batch in ${count} style(s)`);
+      } catch (error: any) {
+        res.status(403).json({
+          error: "Insufficient Credits",
+          message: error.message,
+          upgradeUrl: "/pricing",
+        });
+        return;
+      }
+
+      const queued: Design[] = [];
+      let unqueuedDesignId: number | undefined; // Created, not yet queued
+
+      try {
+        // Stored only now, so rejected requests leave nothing behind
+        // The row keeps its blob key; the job works from the data URL
+        const originalImageKey = await storeImage(originalImage);
+        const originalImageVariants = await createImageVariants(originalImage);
+
+        const batch = await storage.createDesignBatch({ userId, roomTypeId, styleIds, creditCost: count });
+        const hasWatermark = userTier === "free";
+
+        for (const style of styles as DesignStyle[]) {
+          const design = await storage.createDesign({
+            userId,
+            batchId: batch.id,
+            originalImage: originalImageKey,
+            originalImageVariants,
+            styleId: style.id,
+            roomTypeId,
+            prompt: safePrompt || null,
+            status: "generating",
+            hasWatermark,
+            creationTier: userTier,
+            isFavorite: false,
+            isPublic: false,
+          });
+          unqueuedDesignId = design.id;
+
+          if (queued.length === 0) {
+            await storage.updateCreditTransaction(creditTransaction.id, { designId: design.id });
+          }
+
+          enqueueGenerationJob({
+            kind: "generate",
+            designId: design.id,
+            userId,
+            userTier,
+            creditCost: 1,
+            hasWatermark,
+            isStaged: false,
+            batchId: batch.id,
+            request: {
+              originalImage,
+              styleId: style.id,
+              roomTypeId,
+              customPrompt: safePrompt,
+              generateAlternatives: false,
+              provider,
+              aspectRatio,
+              mode: "restyle",
+            },
+          });
+
+          queued.push(design);
+          unqueuedDesignId = undefined;
+        }
+
+        console.log(`⏳ Batch ${batch.id} queued ${count} design(s) for user ${userId}`);
+
+        res.status(202).json({
+          success: true,
+          batch: {
+            id: batch.id,
+            designs: queued.map((design) => ({
+              id: design.id,
+              styleId: design.styleId,
+              status: design.status,
+              hasWatermark: design.hasWatermark,
+            })),
+            creditsRemaining: creditTransaction.balanceAfter,
+          },
+          batchUrl: `/api/designs/batches/${batch.id}`,
+        });
+      } catch (error: any) {
+        console.error("❌ Failed to queue design batch:", error);
+
+        // Queued items refund themselves if they fail; refund the rest here
+        const unqueued = count - queued.length;
+        const refundable = (await failUnqueuedDesign(unqueuedDesignId)) ? unqueued : unqueued - 1;
+        if (refundable > 0) {
+          await refundCredits(userId, undefined, refundable);
+        }
+
+        res.status(500).json({
+          error: "Batch Generation Failed",
+          message: `Failed to start ${unqueued} of ${count} design(s). Those credits have been refunded.`,
+          queuedDesignIds: queued.map((design) => design.id),
+          details: error.message,
+        });
+      }
+    } catch (error: any) {
+      console.error("Error in batch generation endpoint:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "An unexpected error occurred",
+      });
+    }
   }
-});
+);
 
 /**
- * PATCH /api/designs/:id
- * Update design metadata (title, favorite, public)
+ * GET /api/designs/batches/:id
+ * A batch with its designs in request order and overall progress
  */
-router.patch("/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
+router.get("/batches/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const designId = parseInt(req.params.id);
+    const batchId = parseInt(req.params.id as string);
     const userId = req.user!.id;
 
-    if (isNaN(designId)) {
-      res.status(400).json({ error: "Invalid design ID" });
-      return;
-    }
-
-    // Validate request body
-    const validation = updateDesignSchema.safeParse(req.body);
-    if (!validation.success) {
-      res.status(400).json({
-        error: "Validation Error",
-        details: validation.error.errors,
-      });
+    if (isNaN(batchId)) {
+      res.status(400).json({ error: "Invalid batch ID" });
       return;
     }
 
-    // Verify ownership
-    const design = await storage.getDesign(designId);
-    if (!design) {
-      res.status(404).json({ error: "Design not found" });
+    const batch = await storage.getDesignBatch(batchId);
+    if (!batch) {
+      res.status(404).json({ error: "Batch not found" });
       return;
     }
 
-    if (design.userId !== userId) {
+    if (batch.userId !== userId) {
       res.status(403).json({ error: "Access denied" });
       return;
     }
 
-    // Update design
-    const updatedDesign = await storage.updateDesign(designId, validation.data);
+    const designs = await storage.getBatchDesigns(batchId);
+    const countByStatus = (status: string) => designs.filter((design) => design.status === status).length;
+    const generating = countByStatus("generating");
 
     res.json({
-      success: true,
-      design: updatedDesign,
+      batch: {
+        ...batch,
+        status: generating > 0 ? "generating" : "completed",
+        progress: { total: designs.length, generating, completed: countByStatus("completed"), failed: countByStatus("failed") },
+        designs: designs.map(toDesignResponse),
+      },
     });
   } catch (error: any) {
-    console.error("Error updating design:", error);
+    console.error("Error fetching design batch:", error);
     res.status(500).json({
       error: "Internal Server Error",
-      message: "Failed to update design",
+      message: "Failed to fetch batch",
     });
   }
 });
 
 /**
- * DELETE /api/designs/:id
- * Delete a design (ownership check required)
+ * POST /api/designs/:id/edit
+ * Regenerate a masked region of a design as a new revision
+ * Responds 202 with the revision's design ID; track it like a generation
  */
-router.delete("/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
-  try {
-    const designId = parseInt(req.params.id);
-    const userId = req.user!.id;
+router.post(
+  "/:id/edit",
+  requireAuth,
+  requireCredits(1),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parentId = parseInt(req.params.id as string);
+      const userId = req.user!.id;
+      const userTier = req.user!.tier;
 
-    if (isNaN(designId)) {
-      res.status(400).json({ error: "Invalid design ID" });
-      return;
-    }
+      if (isNaN(parentId)) {
+        res.status(400).json({ error: "Invalid design ID" });
+        return;
+      }
 
-    // Verify ownership
-    const design = await storage.getDesign(designId);
-    if (!design) {
-      res.status(404).json({ error: "Design not found" });
-      return;
-    }
+      // Validate request body
+      const validation = designEditSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Validation Error",
+          details: validation.error.errors,
+        });
+        return;
+      }
 
-    if (design.userId !== userId) {
-      res.status(403).json({ error: "Access denied" });
-      return;
-    }
+      const { mask, instruction, provider } = validation.data;
 
-    // Delete design
-    await storage.deleteDesign(designId);
+      // Verify ownership
+      const parent = await storage.getDesign(parentId);
+      if (!parent) {
+        res.status(404).json({ error: "Design not found" });
+        return;
+      }
 
-    console.log(`🗑️  Design ${designId} deleted by user ${userId}`);
+      if (parent.userId !== userId) {
+        res.status(403).json({ error: "Access denied" });
+        return;
+      }
 
-    res.json({
-      success: true,
-      message: "Design deleted successfully",
-    });
+      if (parent.status !== "completed") {
+        res.status(409).json({
+          error: "Design Not Ready",
+          message: "Only completed designs can be edited",
+        });
+        return;
+      }
+
+      // Moderate the instruction BEFORE any credit is deducted
+      let safeInstruction: string | undefined;
+      try {
+        safeInstruction = await moderatePrompt(instruction, { userId, source: "edit" });
+      } catch (error: any) {
+        if (error instanceof PromptRejectedError) {
+          sendPromptRejection(res, error);
+          return;
+        }
+        throw error;
+      }
+
+      if (!safeInstruction) {
+        res.status(422).json({
+          error: "Prompt Rejected",
+          code: "PROMPT_EMPTY",
+          message: "Nothing was left of your instruction after removing unsupported content. Please describe the change you want.",
+          creditCharged: false,
+        });
+        return;
+      }
+
+      if (!resolveAvailableProvider(res, () => getEditProvider(provider))) {
+        return;
+      }
+
+      if (!(await ensureStorageQuota(res, userId, userTier, 1))) {
+        return;
+      }
+
+      // Edits repaint the clean render, loaded from the blob store
+      const image = await loadImage(parent.unwatermarkedImage || parent.generatedImage);
+
+      // Check the mask against the image BEFORE any credit is deducted
+      let editMask: EditMask;
+      try {
+        editMask = await brushMaskToEditMask(image, mask);
+      } catch (error: any) {
+        if (error instanceof InvalidMaskError) {
+          res.status(400).json({ error: "Invalid Mask", message: error.message });
+          return;
+        }
+        throw error;
+      }
+
+      // Deduct credits BEFORE generation (atomic operation)
+      let creditTransaction;
+      try {
+        creditTransaction = await deductCredits(userId, 1, `Region edit of design ${parentId}`);
+      } catch (error: any) {
+        res.status(403).json({
+          error: "Insufficient Credits",
+          message: error.message,
+          upgradeUrl: "/pricing",
+        });
+        return;
+      }
+
+      let designId: number | undefined;
+
+      try {
+        const revision = await storage.createDesign({
+          userId,
+          parentDesignId: parent.id,
+          revisionOperation: "edit",
+          title: parent.title,
+          originalImage: parent.originalImage,
+          originalImageVariants: parent.originalImageVariants,
+          styleId: parent.styleId,
+          roomTypeId: parent.roomTypeId,
+          generationMode: parent.generationMode,
+          prompt: safeInstruction,
+          status: "generating",
+          hasWatermark: userTier === "free",
+          creationTier: userTier,
+          isFavorite: false,
+          isPublic: false,
+        });
+        designId = revision.id;
+
+        await storage.updateCreditTransaction(creditTransaction.id, { designId });
+
+        enqueueGenerationJob({
+          kind: "edit",
+          designId,
+          userId,
+          userTier,
+          creditCost: 1,
+          hasWatermark: revision.hasWatermark,
+          isStaged: revision.generationMode === "stage",
+          request: {
+            image,
+            mask: editMask.mask,
+            instruction: safeInstruction,
+            styleId: parent.styleId,
+            aspectRatio: getAspectRatio(parent),
+            provider,
+            ...getPromptConstraints(parent),
+          },
+        });
+
+        console.log(
+          `⏳ Revision ${designId} of design ${parentId} queued for editing ${Math.round(editMask.coverage * 100)}% of the image`
+        );
+
+        res.status(202).json({
+          success: true,
+          design: {
+            id: revision.id,
+            parentDesignId: parent.id,
+            status: revision.status,
+            hasWatermark: revision.hasWatermark,
+            creditsRemaining: creditTransaction.balanceAfter,
+          },
+          statusUrl: `/api/designs/${revision.id}/status`,
+          eventsUrl: `/api/designs/${revision.id}/events`,
+        });
+      } catch (error: any) {
+        console.error("❌ Failed to queue design edit:", error);
+
+        // Refund credits on failure
+        if (await failUnqueuedDesign(designId)) {
+          await refundCredits(userId, designId, 1);
+        }
+
+        res.status(500).json({
+          error: "Design Edit Failed",
+          message: "Failed to start the edit. Your credit has been refunded.",
+          details: error.message,
+        });
+      }
+    } catch (error: any) {
+      console.error("Error in edit design endpoint:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/designs/:id/variations
+ * Remix a completed design into N new variants from its stored prompt
+ * Variants are saved as child designs; each costs 1 credit and is refunded
+ * individually if it fails
+ */
+router.post(
+  "/:id/variations",
+  requireAuth,
+  requireCredits(1),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parentId = parseInt(req.params.id as string);
+      const userId = req.user!.id;
+      const userTier = req.user!.tier;
+
+      if (isNaN(parentId)) {
+        res.status(400).json({ error: "Invalid design ID" });
+        return;
+      }
+
+      // Validate request body
+      const validation = designVariationSchema.safeParse(req.body);
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Validation Error",
+          details: validation.error.errors,
+        });
+        return;
+      }
+
+      const { count, keepPalette, keepLayout, moreBold, provider } = validation.data;
+      const lightingScenarios = uniqueScenarios(validation.data.lightingScenarios);
+
+      if (!ensureLightingAllowed(res, userTier, lightingScenarios)) {
+        return;
+      }
+
+      // Verify ownership
+      const parent = await storage.getDesign(parentId);
+      if (!parent) {
+        res.status(404).json({ error: "Design not found" });
+        return;
+      }
+
+      if (parent.userId !== userId) {
+        res.status(403).json({ error: "Access denied" });
+        return;
+      }
+
+      const basePrompt = parent.generationMetadata?.dallePrompt;
+      if (parent.status !== "completed" || !basePrompt) {
+        res.status(409).json({
+          error: "Design Not Ready",
+          message: "Only completed designs can be remixed",
+        });
+        return;
+      }
+
+      const resolveProvider = () => (lightingScenarios ? getLightingProvider(provider) : getImageProvider(provider));
+      if (!resolveAvailableProvider(res, resolveProvider)) {
+        return;
+      }
+
+      if (!(await ensureStorageQuota(res, userId, userTier, count))) {
+        return;
+      }
+
+      const cleanImage = await loadImage(parent.unwatermarkedImage || parent.generatedImage);
+      const sourceImage = keepLayout ? cleanImage : await loadImage(parent.originalImage);
+
+      // Deduct credits for every variant BEFORE generation (atomic operation)
+      let creditTransaction;
+      try {
+        creditTransaction = await deductCredits(userId, count, `${count} variation(s) of design ${parentId}`);
+      } catch (error: any) {
+        res.status(403).json({
+          error: "Insufficient Credits",
+          message: error.message,
+          upgradeUrl: "/pricing",
+        });
+        return;
+      }
+
+      const options = { keepPalette, keepLayout, moreBold };
+      const constraints = getPromptConstraints(parent);
+      const variations: Design[] = [];
+      let unqueuedDesignId: number | undefined; // Created, not yet queued
+
+      try {
+        for (let variant = 1; variant <= count; variant++) {
+          const variation = await storage.createDesign({
+            userId,
+            parentDesignId: parent.id,
+            revisionOperation: "variation",
+            title: parent.title,
+            originalImage: parent.originalImage,
+            originalImageVariants: parent.originalImageVariants,
+            styleId: parent.styleId,
+            roomTypeId: parent.roomTypeId,
+            generationMode: parent.generationMode,
+            prompt: parent.prompt,
+            status: "generating",
+            hasWatermark: userTier === "free",
+            creationTier: userTier,
+            isFavorite: false,
+            isPublic: false,
+            generationMetadata: { settings: { operation: "variation", variant, ...options, ...constraints } },
+          });
+          unqueuedDesignId = variation.id;
+
+          if (variant === 1) {
+            await storage.updateCreditTransaction(creditTransaction.id, { designId: variation.id });
+          }
+
+          enqueueGenerationJob({
+            kind: "variation",
+            designId: variation.id,
+            userId,
+            userTier,
+            creditCost: 1,
+            hasWatermark: variation.hasWatermark,
+            isStaged: variation.generationMode === "stage",
+            request: {
+              basePrompt,
+              lightingScenarios,
+              sourceImage,
+              paletteImage: cleanImage,
+              styleId: parent.styleId,
+              options,
+              variant,
+              variantCount: count,
+              aspectRatio: getAspectRatio(parent),
+              provider,
+              ...constraints,
+            },
+          });
+
+          variations.push(variation);
+          unqueuedDesignId = undefined;
+        }
+
+        console.log(`⏳ ${count} variation(s) of design ${parentId} queued for user ${userId}`);
+
+        res.status(202).json({
+          success: true,
+          parentDesignId: parent.id,
+          variations: variations.map((variation) => ({
+            id: variation.id,
+            status: variation.status,
+            hasWatermark: variation.hasWatermark,
+            statusUrl: `/api/designs/${variation.id}/status`,
+            eventsUrl: `/api/designs/${variation.id}/events`,
+          })),
+          creditsRemaining: creditTransaction.balanceAfter,
+        });
+      } catch (error: any) {
+        console.error("❌ Failed to queue design variations:", error);
+
+        // Queued variants refund themselves if they fail; refund the rest here
+        const unqueued = count - variations.length;
+        const refundable = (await failUnqueuedDesign(unqueuedDesignId)) ? unqueued : unqueued - 1;
+        if (refundable > 0) {
+          await refundCredits(userId, undefined, refundable);
+        }
+
+        res.status(500).json({
+          error: "Design Variation Failed",
+          message: `Failed to start ${unqueued} of ${count} variation(s). Those credits have been refunded.`,
+          queuedVariationIds: variations.map((variation) => variation.id),
+          details: error.message,
+        });
+      }
+    } catch (error: any) {
+      console.error("Error in design variations endpoint:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/designs/:id/variations
+ * Variations generated from a design, oldest first
+ */
+router.get("/:id/variations", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    const variations = await storage.getDesignVariations([designId]);
+
+    res.json({ variations: variations.map(toDesignListItem) });
+  } catch (error: any) {
+    console.error("Error fetching design variations:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch variations",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id/revisions
+ * The design's whole lineage as a tree: the design made from the room photo
+ * and every edit, variation, upscale, regeneration and revert below it
+ */
+router.get("/:id/revisions", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    const lineage = await storage.getDesignLineage(designId);
+
+    res.json({
+      designId,
+      revisions: buildRevisionTree(lineage.map(toDesignListItem)),
+    });
+  } catch (error: any) {
+    console.error("Error fetching design revisions:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch revisions",
+    });
+  }
+});
+
+/**
+ * POST /api/designs/:id/regenerate
+ * Render a design again from its room photo with the same style and settings
+ * The new render is saved as a child revision; costs 1 credit, refunded if it fails
+ */
+router.post(
+  "/:id/regenerate",
+  requireAuth,
+  requireCredits(1),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parentId = parseInt(req.params.id as string);
+      const userId = req.user!.id;
+      const userTier = req.user!.tier;
+
+      if (isNaN(parentId)) {
+        res.status(400).json({ error: "Invalid design ID" });
+        return;
+      }
+
+      const validation = designRegenerateSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        res.status(400).json({
+          error: "Validation Error",
+          details: validation.error.errors,
+        });
+        return;
+      }
+
+      const { provider } = validation.data;
+
+      // Verify ownership
+      const parent = await storage.getDesign(parentId);
+      if (!parent) {
+        res.status(404).json({ error: "Design not found" });
+        return;
+      }
+
+      if (parent.userId !== userId) {
+        res.status(403).json({ error: "Access denied" });
+        return;
+      }
+
+      if (parent.status === "generating") {
+        res.status(409).json({
+          error: "Design Not Ready",
+          message: "Wait for this design to finish before regenerating it",
+        });
+        return;
+      }
+
+      // Edits and variations were rendered from another design, not from the room photo
+      if ((parent.revisionOperation && parent.revisionOperation !== "regenerate") || !parent.styleId || !parent.roomTypeId) {
+        res.status(409).json({
+          error: "Cannot Regenerate",
+          message: "Only designs made from a room photo can be regenerated",
+        });
+        return;
+      }
+
+      const settings = parent.generationMetadata?.settings || {};
+      const styleBlend = z.array(styleWeightSchema).min(2).safeParse(settings.styleBlend);
+      const mode = generationModeSchema.catch("restyle").parse(parent.generationMode);
+
+      // The plan may have changed since the design was made
+      const styleIds = styleBlend.success ? styleBlend.data.map((entry) => entry.styleId) : [parent.styleId];
+      const styles = await Promise.all(styleIds.map((styleId) => storage.getDesignStyle(styleId)));
+      const lockedStyle = styles.find((style) => style && style.tier !== "free" && userTier === "free");
+      if (lockedStyle) {
+        res.status(403).json({
+          error: "Premium Style Requires Subscription",
+          message: `The "${lockedStyle.name}" style is only available for paid subscribers.`,
+          upgradeUrl: "/pricing",
+        });
+        return;
+      }
+
+      // Lighting scenarios are only rendered again on a paid plan
+      const lightingScenarios =
+        userTier !== "free" ? z.array(lightingScenarioSchema).min(1).safeParse(settings.lightingScenarios).data : undefined;
+
+      const resolveProvider = () => {
+        if (mode === "stage") return getStagingProvider(provider);
+        return lightingScenarios ? getLightingProvider(provider) : getImageProvider(provider);
+      };
+      if (!resolveAvailableProvider(res, resolveProvider)) {
+        return;
+      }
+
+      if (!(await ensureStorageQuota(res, userId, userTier, 1))) {
+        return;
+      }
+
+      const originalImage = await loadImage(parent.originalImage);
+
+      // Deduct credits BEFORE generation (atomic operation)
+      let creditTransaction;
+      try {
+        creditTransaction = await deductCredits(userId, 1, `Regeneration of design ${parentId}`);
+      } catch (error: any) {
+        res.status(403).json({
+          error: "Insufficient Credits",
+          message: error.message,
+          upgradeUrl: "/pricing",
+        });
+        return;
+      }
+
+      let designId: number | undefined;
+
+      try {
+        const revision = await storage.createDesign({
+          userId,
+          parentDesignId: parent.id,
+          revisionOperation: "regenerate",
+          title: parent.title,
+          originalImage: parent.originalImage,
+          originalImageVariants: parent.originalImageVariants,
+          styleId: parent.styleId,
+          roomTypeId: parent.roomTypeId,
+          generationMode: mode,
+          prompt: parent.prompt,
+          status: "generating",
+          hasWatermark: userTier === "free",
+          creationTier: userTier,
+          isFavorite: false,
+          isPublic: false,
+        });
+        designId = revision.id;
+
+        await storage.updateCreditTransaction(creditTransaction.id, { designId });
+
+        enqueueGenerationJob({
+          kind: "generate",
+          designId,
+          userId,
+          userTier,
+          creditCost: 1,
+          hasWatermark: revision.hasWatermark,
+          isStaged: mode === "stage",
+          request: {
+            originalImage,
+            styleId: parent.styleId,
+            roomTypeId: parent.roomTypeId,
+            customPrompt: parent.prompt || undefined,
+            generateAlternatives: settings.generateAlternatives === true && userTier !== "free" && mode !== "stage",
+            provider,
+            aspectRatio: getAspectRatio(parent),
+            paletteLock: z.array(hexColorSchema).min(1).safeParse(settings.paletteLock).data,
+            styleBlend: styleBlend.data,
+            mode,
+            stagingDensity: stagingDensitySchema.safeParse(settings.stagingDensity).data,
+            lightingScenarios,
+            ...getPromptConstraints(parent),
+          },
+        });
+
+        console.log(`⏳ Regeneration ${designId} of design ${parentId} queued`);
+
+        res.status(202).json({
+          success: true,
+          design: {
+            id: revision.id,
+            parentDesignId: parent.id,
+            status: revision.status,
+            hasWatermark: revision.hasWatermark,
+            creditsRemaining: creditTransaction.balanceAfter,
+          },
+          statusUrl: `/api/designs/${revision.id}/status`,
+          eventsUrl: `/api/designs/${revision.id}/events`,
+        });
+      } catch (error: any) {
+        console.error("❌ Failed to queue design regeneration:", error);
+
+        // Refund credits on failure
+        if (await failUnqueuedDesign(designId)) {
+          await refundCredits(userId, designId, 1);
+        }
+
+        res.status(500).json({
+          error: "Design Regeneration Failed",
+          message: "Failed to start the regeneration. Your credit has been refunded.",
+          details: error.message,
+        });
+      }
+    } catch (error: any) {
+      console.error("Error in regenerate design endpoint:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/designs/:id/upscale
+ * Resize a completed design to the resolution of the user's current plan,
+ * e.g. a 720p design made on the free plan after upgrading. Saved as a child
+ * revision; no credit is charged.
+ */
+router.post("/:id/upscale", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parentId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+    const userTier = req.user!.tier;
+
+    if (isNaN(parentId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    if (userTier === "free") {
+      res.status(403).json({
+        error: "Upgrade Required",
+        message: "Upgrade to a paid plan to upscale designs.",
+        upgradeUrl: "/pricing",
+      });
+      return;
+    }
+
+    // Verify ownership
+    const parent = await storage.getDesign(parentId);
+    if (!parent) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (parent.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    if (parent.status !== "completed") {
+      res.status(409).json({
+        error: "Design Not Ready",
+        message: "Only completed designs can be upscaled",
+      });
+      return;
+    }
+
+    const target = getOutputTarget(userTier, getAspectRatio(parent));
+    const current = parent.generationMetadata?.output;
+    if (current && current.width >= target.width && current.height >= target.height) {
+      res.status(409).json({
+        error: "Already Full Resolution",
+        message: `This design is already ${current.resolution}, the highest resolution your plan delivers.`,
+      });
+      return;
+    }
+
+    if (!(await ensureStorageQuota(res, userId, userTier, 1))) {
+      return;
+    }
+
+    // Upscale the clean render; designs without one keep their watermark
+    const image = await resizeForDelivery(await loadImage(parent.unwatermarkedImage || parent.generatedImage), target);
+    const generatedImage = await storeImage(image);
+
+    // Template outcomes count the designs a template rendered, so the copy doesn't carry it
+    const { promptTemplate: _promptTemplate, ...metadata } = parent.generationMetadata || {};
+
+    const revision = await storage.createDesign({
+      userId,
+      parentDesignId: parent.id,
+      revisionOperation: "upscale",
+      title: parent.title,
+      originalImage: parent.originalImage,
+      originalImageVariants: parent.originalImageVariants,
+      generatedImage,
+      generatedImageVariants: await createImageVariants(generatedImage),
+      palette: parent.palette,
+      tags: parent.tags,
+      styleId: parent.styleId,
+      roomTypeId: parent.roomTypeId,
+      generationMode: parent.generationMode,
+      prompt: parent.prompt,
+      aiModel: parent.aiModel,
+      status: "completed",
+      hasWatermark: parent.hasWatermark && !parent.unwatermarkedImage,
+      creationTier: userTier,
+      isFavorite: false,
+      isPublic: false,
+      creditCost: 0,
+      generationMetadata: {
+        ...metadata,
+        output: target,
+        settings: {
+          operation: "upscale",
+          ...(current && { upscaledFrom: current.resolution }),
+          ...getPromptConstraints(parent),
+        },
+      },
+    });
+
+    console.log(`🔍 Design ${parentId} upscaled to ${target.resolution} as revision ${revision.id}`);
+
+    res.status(201).json({
+      success: true,
+      design: toDesignResponse(revision),
+    });
+  } catch (error: any) {
+    console.error("Error upscaling design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to upscale design",
+    });
+  }
+});
+
+/**
+ * POST /api/designs/:id/revert
+ * Go back to an earlier revision in the design's lineage. Its images and views
+ * are copied into a new revision under this design, so no history is lost.
+ * No credit is charged.
+ */
+router.post("/:id/revert", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parentId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+
+    if (isNaN(parentId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const validation = designRevertSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { revisionId } = validation.data;
+
+    // Verify ownership
+    const parent = await storage.getDesign(parentId);
+    if (!parent) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (parent.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    if (revisionId === parentId) {
+      res.status(409).json({
+        error: "Already Current",
+        message: "This is already the revision you're on",
+      });
+      return;
+    }
+
+    const lineage = await storage.getDesignLineage(parentId);
+    const source = lineage.some((design) => design.id === revisionId) ? await storage.getDesign(revisionId) : undefined;
+    if (!source) {
+      res.status(404).json({ error: "Revision not found" });
+      return;
+    }
+
+    if (source.status !== "completed") {
+      res.status(409).json({
+        error: "Revision Not Ready",
+        message: "Only completed revisions can be reverted to",
+      });
+      return;
+    }
+
+    if (!(await ensureStorageQuota(res, userId, req.user!.tier, 1))) {
+      return;
+    }
+
+    const { promptTemplate: _promptTemplate, ...metadata } = source.generationMetadata || {};
+
+    const revision = await storage.createDesign({
+      userId,
+      parentDesignId: parent.id,
+      revisionOperation: "revert",
+      title: parent.title,
+      originalImage: source.originalImage,
+      originalImageVariants: source.originalImageVariants,
+      generatedImage: source.generatedImage,
+      generatedImageVariants: source.generatedImageVariants,
+      unwatermarkedImage: source.unwatermarkedImage,
+      palette: source.palette,
+      tags: source.tags,
+      styleId: source.styleId,
+      roomTypeId: source.roomTypeId,
+      generationMode: source.generationMode,
+      prompt: source.prompt,
+      aiModel: source.aiModel,
+      status: "completed",
+      hasWatermark: source.hasWatermark,
+      creationTier: req.user!.tier,
+      isFavorite: false,
+      isPublic: false,
+      creditCost: 0,
+      generationMetadata: {
+        ...metadata,
+        settings: { operation: "revert", revertedTo: source.id, ...getPromptConstraints(source) },
+      },
+    });
+
+    // Views share their stored images, so copying them only adds rows
+    const views = await storage.getDesignViews(source.id);
+    await storage.createDesignViews(
+      views.map(({ id: _id, createdAt: _createdAt, ...view }) => ({ ...view, designId: revision.id }))
+    );
+
+    console.log(`⏪ Design ${parentId} reverted to revision ${revisionId} as revision ${revision.id}`);
+
+    res.status(201).json({
+      success: true,
+      design: toDesignResponse(revision),
+    });
+  } catch (error: any) {
+    console.error("Error reverting design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to revert design",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/my-designs
+ * Get all designs for the authenticated user, with facet counts for the filter sidebar
+ * `q` is a full-text search over title, prompt, style, room type and tags.
+ * `color` matches palette color names or families; hex values match their nearest family
+ */
+router.get("/my-designs", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    // Parse query parameters for filtering and pagination
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const styleId = req.query.styleId ? parseInt(req.query.styleId as string) : undefined;
+    const roomTypeId = req.query.roomTypeId ? parseInt(req.query.roomTypeId as string) : undefined;
+    const favoritesOnly = req.query.favoritesOnly === "true";
+    const color = req.query.color ? normalizeColorQuery(req.query.color as string) : undefined;
+    const search = typeof req.query.q === "string" && req.query.q.trim() ? req.query.q.trim() : undefined;
+    const createdAfter = parseDateQuery(req.query.createdAfter);
+    const createdBefore = parseDateQuery(req.query.createdBefore);
+    const creationTier = req.query.tier ? (req.query.tier as string) : undefined;
+    const isPublic = req.query.isPublic === "true" ? true : req.query.isPublic === "false" ? false : undefined;
+
+    const offset = (page - 1) * limit;
+
+    // Variations are stacked under their original, except when browsing favorites, searching or filtering
+    const isFiltered =
+      favoritesOnly || !!color || !!search || !!createdAfter || !!createdBefore || !!creationTier || isPublic !== undefined;
+    const excludeVariations = !isFiltered;
+
+    const filters = {
+      styleId,
+      roomTypeId,
+      favoritesOnly,
+      excludeVariations,
+      color,
+      search,
+      createdAfter,
+      createdBefore,
+      creationTier,
+      isPublic,
+    };
+
+    // Get user designs with filters
+    const designs = await storage.getUserDesigns(userId, { ...filters, limit, offset });
+
+    // Get total count for pagination
+    const totalCount = await storage.getUserDesignsCount(userId, filters);
+    const facets = await storage.getUserDesignFacets(userId, filters);
+
+    const variations = excludeVariations
+      ? await storage.getDesignVariations(designs.map((design) => design.id))
+      : [];
+
+    res.json({
+      designs: designs.map((design) => ({
+        ...toDesignListItem(design),
+        variations: variations
+          .filter((variation) => variation.parentDesignId === design.id)
+          .map(toDesignListItem),
+      })),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasMore: offset + designs.length < totalCount,
+      },
+      facets,
+    });
+  } catch (error: any) {
+    console.error("Error fetching user designs:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch designs",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/trash
+ * Designs the user has deleted, most recent first, with when each will be purged
+ */
+router.get("/trash", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user!.id;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = (page - 1) * limit;
+
+    const designs = await storage.getTrashedDesigns(userId, { limit, offset });
+    const totalCount = await storage.getTrashedDesignsCount(userId);
+
+    res.json({
+      designs: designs.map((design) => ({
+        ...toDesignListItem(design),
+        purgesAt: getPurgeDate(design.deletedAt),
+      })),
+      retentionDays: getTrashRetentionDays(),
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasMore: offset + designs.length < totalCount,
+      },
+    });
+  } catch (error: any) {
+    console.error("Error fetching trash:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch trash",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id
+ * Get a single design by ID (with ownership check)
+ */
+router.get("/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    // Check ownership or public access
+    if (design.userId !== userId && !design.isPublic) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    res.json({ design: toDesignResponse(design) });
+  } catch (error: any) {
+    console.error("Error fetching design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch design",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id/compare.png
+ * Before/after composite of the room photo and the design
+ * Query: layout (side-by-side | top-bottom | diagonal), labels, branding.
+ * Public designs can be fetched without signing in so the image can be shared.
+ */
+router.get("/:id/compare.png", optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const validation = comparisonQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    // Check ownership or public access
+    if (design.userId !== req.user?.id && !design.isPublic) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    if (design.status !== "completed") {
+      res.status(409).json({
+        error: "Design Not Ready",
+        message: "Comparisons are available once the design has finished generating",
+      });
+      return;
+    }
+
+    // generatedImage keeps the free-tier watermark; the clean render is never exported here
+    const image = await buildComparisonImage(
+      await loadImage(design.originalImage),
+      await loadImage(design.generatedImage),
+      validation.data
+    );
+
+    res.setHeader("Content-Type", "image/png");
+    res.setHeader("Content-Disposition", `inline; filename="aifyinteriors-design-${design.id}-${validation.data.layout}.png"`);
+    res.setHeader("Cache-Control", "private, max-age=300"); // Sharing can be revoked by making the design private
+    res.send(image);
+  } catch (error: any) {
+    console.error("Error building comparison image:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to build comparison image",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id/views
+ * Alternative angles and lighting of a design, each with a signed image URL
+ */
+router.get("/:id/views", optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    // Check ownership or public access
+    if (design.userId !== req.user?.id && !design.isPublic) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    const views = await storage.getDesignViews(designId);
+
+    res.json({
+      views: views.map(({ image, ...view }) => ({
+        ...view,
+        imageUrl: signImageUrl(image),
+      })),
+    });
+  } catch (error: any) {
+    console.error("Error fetching design views:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch design views",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id/views/:viewId/image
+ * A view's image; ?download=true serves it as an attachment
+ */
+router.get("/:id/views/:viewId/image", optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await findDesignView(req, res, { allowPublic: true });
+    if (!found) {
+      return;
+    }
+
+    const { view } = found;
+    const { buffer, mimeType } = await readImage(view.image);
+    const filename = `aifyinteriors-design-${view.designId}-${view.lightingScenario || view.kind}-${view.id}.${mimeType === "image/jpeg" ? "jpg" : "png"}`;
+
+    res.setHeader("Content-Type", mimeType);
+    res.setHeader("Content-Disposition", `${req.query.download === "true" ? "attachment" : "inline"}; filename="${filename}"`);
+    res.setHeader("Cache-Control", "private, max-age=300");
+    res.send(buffer);
+  } catch (error: any) {
+    console.error("Error fetching design view image:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch view image",
+    });
+  }
+});
+
+/**
+ * PATCH /api/designs/:id/views/:viewId
+ * Favorite or unfavorite a view (owner only)
+ */
+router.patch("/:id/views/:viewId", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const validation = updateDesignViewSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const found = await findDesignView(req, res, { allowPublic: false });
+    if (!found) {
+      return;
+    }
+
+    const view = await storage.updateDesignView(found.view.id, validation.data);
+
+    res.json({
+      success: true,
+      view,
+    });
+  } catch (error: any) {
+    console.error("Error updating design view:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update view",
+    });
+  }
+});
+
+/**
+ * DELETE /api/designs/:id/views/:viewId
+ * Remove one view from a design (owner only)
+ */
+router.delete("/:id/views/:viewId", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await findDesignView(req, res, { allowPublic: false });
+    if (!found) {
+      return;
+    }
+
+    const view = await storage.deleteDesignView(found.view.id);
+    await deleteUnreferencedImages(view ? [view.image] : []);
+
+    console.log(`🗑️  View ${found.view.id} of design ${found.design.id} deleted by user ${req.user!.id}`);
+
+    res.json({
+      success: true,
+      message: "View deleted successfully",
+    });
+  } catch (error: any) {
+    console.error("Error deleting design view:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to delete view",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id/status
+ * Poll the generation status of a design (owner only)
+ */
+router.get("/:id/status", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    res.json(buildStatusPayload(design));
+  } catch (error: any) {
+    console.error("Error fetching design status:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch design status",
+    });
+  }
+});
+
+/**
+ * GET /api/designs/:id/events
+ * Server-sent events stream of generation progress (owner only)
+ * Emits "progress" events while generating and a final "status" event
+ */
+router.get("/:id/events", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    const design = await storage.getDesign(designId);
+
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let closed = false;
+    let unsubscribe = () => {};
+
+    const finish = async () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+
+      const latest = await storage.getDesign(designId);
+      if (latest) {
+        sendEvent("status", buildStatusPayload(latest));
+      }
+      res.end();
+    };
+
+    // Keep proxies from closing idle connections
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+
+    req.on("close", () => {
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+    });
+
+    // Subscribe before re-reading state so no terminal update slips through
+    unsubscribe = subscribeToGeneration(designId, (progress) => {
+      sendEvent("progress", progress);
+      if (progress.stage === "completed" || progress.stage === "failed") {
+        finish().catch((error) => console.error("Error finishing design event stream:", error));
+      }
+    });
+
+    const current = await storage.getDesign(designId);
+    if (!current || current.status !== "generating") {
+      await finish();
+      return;
+    }
+
+    sendEvent("progress", buildStatusPayload(current));
+  } catch (error: any) {
+    console.error("Error streaming design events:", error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to stream design events",
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+/**
+ * POST /api/designs/:id/unlock
+ * Replace a watermarked design with its clean original (paid tiers only)
+ */
+router.post("/:id/unlock", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id as string);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    if (req.user!.tier === "free") {
+      res.status(403).json({
+        error: "Upgrade Required",
+        message: "Upgrade to a paid plan to remove watermarks.",
+        upgradeUrl: "/pricing",
+      });
+      return;
+    }
+
+    // Verify ownership
+    const design = await storage.getDesign(designId);
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    if (!design.hasWatermark) {
+      res.json({ success: true, design: toDesignResponse(design) });
+      return;
+    }
+
+    if (!design.unwatermarkedImage) {
+      res.status(409).json({
+        error: "Clean Original Unavailable",
+        message: "This design was created before clean originals were kept and can't be unlocked.",
+      });
+      return;
+    }
+
+    // Another request may have unlocked it in the meantime
+    const updatedDesign = (await unlockDesign(design)) || (await storage.getDesign(designId));
+
+    console.log(`🔓 Design ${designId} unlocked by user ${userId}`);
+
+    res.json({
+      success: true,
+      design: updatedDesign && toDesignResponse(updatedDesign),
+    });
+  } catch (error: any) {
+    console.error("Error unlocking design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to unlock design",
+    });
+  }
+});
+
+/**
+ * PATCH /api/designs/:id
+ * Update design metadata (title, favorite, public)
+ */
+router.patch("/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    // Validate request body
+    const validation = updateDesignSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: "Validation Error",
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    // Verify ownership
+    const design = await storage.getDesign(designId);
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    // Update design
+    const updatedDesign = await storage.updateDesign(designId, validation.data);
+
+    res.json({
+      success: true,
+      design: updatedDesign && toDesignResponse(updatedDesign),
+    });
+  } catch (error: any) {
+    console.error("Error updating design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to update design",
+    });
+  }
+});
+
+/**
+ * DELETE /api/designs/:id
+ * Move a design (and its variations) to the trash (ownership check required)
+ */
+router.delete("/:id", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const designId = parseInt(req.params.id);
+    const userId = req.user!.id;
+
+    if (isNaN(designId)) {
+      res.status(400).json({ error: "Invalid design ID" });
+      return;
+    }
+
+    // Verify ownership
+    const design = await storage.getDesign(designId);
+    if (!design) {
+      res.status(404).json({ error: "Design not found" });
+      return;
+    }
+
+    if (design.userId !== userId) {
+      res.status(403).json({ error: "Access denied" });
+      return;
+    }
+
+    await storage.trashDesign(designId);
+
+    console.log(`🗑️  Design ${designId} moved to the trash by user ${userId}`);
+
+    res.json({
+      success: true,
+      message: "Design moved to the trash",
+      purgesAt: getPurgeDate(new Date()),
+    });
   } catch (error: any) {
     console.error("Error deleting design:", error);
     res.status(500).json({
@@ -357,4 +2040,335 @@ router.delete("/:id", requireAuth, async (req: Request, res: Response): Promise<
   }
 });
 
+/**
+ * POST /api/designs/:id/restore
+ * Bring a design (and the variations trashed with it) back from the trash
+ */
+router.post("/:id/restore", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await findTrashedDesign(req, res);
+    if (!found) {
+      return;
+    }
+
+    await storage.restoreDesign(found.id);
+    const restored = await storage.getDesign(found.id);
+
+    console.log(`♻️  Design ${found.id} restored from the trash by user ${req.user!.id}`);
+
+    res.json({
+      success: true,
+      design: restored && toDesignResponse(restored),
+    });
+  } catch (error: any) {
+    console.error("Error restoring design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to restore design",
+    });
+  }
+});
+
+/**
+ * DELETE /api/designs/:id/permanent
+ * Delete a design in the trash for good
+ */
+router.delete("/:id/permanent", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const found = await findTrashedDesign(req, res);
+    if (!found) {
+      return;
+    }
+
+    const deleted = await deleteFromTrash(found.id);
+
+    console.log(`🗑️  Design ${found.id} permanently deleted by user ${req.user!.id} (${deleted} design(s) in all)`);
+
+    res.json({
+      success: true,
+      message: "Design permanently deleted",
+    });
+  } catch (error: any) {
+    console.error("Error permanently deleting design:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to delete design",
+    });
+  }
+});
+
+/**
+ * Status payload shared by the polling and SSE endpoints
+ */
+function buildStatusPayload(design: Design) {
+  const progress = getGenerationProgress(design.id);
+  const isGenerating = design.status === "generating";
+
+  return {
+    designId: design.id,
+    status: design.status,
+    stage: progress?.stage ?? (isGenerating ? "queued" : design.status),
+    progress: progress?.progress ?? (isGenerating ? 0 : 100),
+    message: progress?.message,
+    error: design.status === "failed" ? design.generationMetadata?.error : undefined,
+    errorCode: design.status === "failed" ? design.generationMetadata?.errorCode : undefined,
+    design: design.status === "completed" ? toDesignResponse(design) : undefined,
+  };
+}
+
+/**
+ * Strip server-only fields before a design leaves the API
+ * The clean render of a watermarked design must never reach the client.
+ * Images go out as signed URLs rather than inline base64.
+ */
+function toDesignResponse(design: Design) {
+  const { unwatermarkedImage, searchVector, ...publicFields } = design;
+  return toDesignListItem(publicFields);
+}
+
+/**
+ * Lightweight design for lists, with signed URLs for its images and thumbnails
+ */
+function toDesignListItem<T extends DesignListItem>(design: T): T {
+  return {
+    ...design,
+    originalImage: signImageUrl(design.originalImage),
+    generatedImage: signImageUrl(design.generatedImage),
+    originalImageVariants: signImageVariants(design.originalImageVariants),
+    generatedImageVariants: signImageVariants(design.generatedImageVariants),
+  };
+}
+
+/**
+ * Aspect ratio a design was delivered at (designs from before aspect ratios were square)
+ */
+function getAspectRatio(design: Design): AspectRatio {
+  const parsed = aspectRatioSchema.safeParse(design.generationMetadata?.output?.aspectRatio);
+  return parsed.success ? parsed.data : "square";
+}
+
+/**
+ * Exclude/preserve constraints a design was generated with, so revisions inherit them
+ */
+function getPromptConstraints(design: Design): PromptConstraints {
+  const settings = design.generationMetadata?.settings;
+  const exclude = z.array(promptConstraintSchema).safeParse(settings?.exclude);
+  const preserve = z.array(promptConstraintSchema).safeParse(settings?.preserve);
+
+  return {
+    ...(exclude.success && exclude.data.length > 0 && { exclude: exclude.data }),
+    ...(preserve.success && preserve.data.length > 0 && { preserve: preserve.data }),
+  };
+}
+
+/**
+ * Resolve the requested provider, sending 400 when it can't serve the request
+ * and 503 when its circuit breaker is open
+ * Checked before credits are deducted, so nothing is charged
+ */
+function resolveAvailableProvider(
+  res: Response,
+  resolve: () => ImageGenerationProvider
+): ImageGenerationProvider | null {
+  let provider: ImageGenerationProvider;
+  try {
+    provider = resolve();
+  } catch (error: any) {
+    if (error instanceof UnsupportedProviderError) {
+      res.status(400).json({ error: "Unsupported Provider", message: error.message, creditCharged: false });
+      return null;
+    }
+    throw error;
+  }
+
+  const { available, retryAfterMs } = getProviderAvailability(provider.id);
+  if (available) {
+    return provider;
+  }
+
+  const retryAfter = Math.ceil(retryAfterMs / 1000);
+  res.setHeader("Retry-After", retryAfter.toString());
+  res.status(503).json({
+    error: "Service Busy",
+    code: "PROVIDER_UNAVAILABLE",
+    message: "The image service is busy right now, your credit was not charged. Please try again shortly.",
+    retryAfter,
+    creditCharged: false,
+  });
+  return null;
+}
+
+/**
+ * Load the view named by :viewId after checking access to its design
+ * Sends the error response and returns null when the view can't be served
+ */
+async function findDesignView(
+  req: Request,
+  res: Response,
+  options: { allowPublic: boolean }
+): Promise<{ design: Design; view: DesignView } | null> {
+  const designId = parseInt(req.params.id as string);
+  const viewId = parseInt(req.params.viewId as string);
+
+  if (isNaN(designId) || isNaN(viewId)) {
+    res.status(400).json({ error: "Invalid design or view ID" });
+    return null;
+  }
+
+  const design = await storage.getDesign(designId);
+
+  if (!design) {
+    res.status(404).json({ error: "Design not found" });
+    return null;
+  }
+
+  const isOwner = design.userId === req.user?.id;
+  if (!isOwner && !(options.allowPublic && design.isPublic)) {
+    res.status(403).json({ error: "Access denied" });
+    return null;
+  }
+
+  const view = await storage.getDesignView(viewId);
+
+  if (!view || view.designId !== designId) {
+    res.status(404).json({ error: "View not found" });
+    return null;
+  }
+
+  return { design, view };
+}
+
+/**
+ * Load the trashed design named by :id after checking ownership
+ * Sends the error response and returns null when it isn't in the user's trash
+ */
+async function findTrashedDesign(req: Request, res: Response): Promise<Design | null> {
+  const designId = parseInt(req.params.id as string);
+
+  if (isNaN(designId)) {
+    res.status(400).json({ error: "Invalid design ID" });
+    return null;
+  }
+
+  const design = await storage.getDesign(designId, { includeTrashed: true });
+
+  if (!design) {
+    res.status(404).json({ error: "Design not found" });
+    return null;
+  }
+
+  if (design.userId !== req.user!.id) {
+    res.status(403).json({ error: "Access denied" });
+    return null;
+  }
+
+  if (!design.deletedAt) {
+    res.status(409).json({
+      error: "Design Not In Trash",
+      message: "Only designs in the trash can be restored or permanently deleted",
+    });
+    return null;
+  }
+
+  return design;
+}
+
+/**
+ * Send 403 when saving the new designs would go over the user's storage quota
+ * Checked before credits are deducted, so nothing is charged
+ */
+async function ensureStorageQuota(
+  res: Response,
+  userId: number,
+  userTier: string,
+  newDesigns: number,
+  incomingBytes: number = 0
+): Promise<boolean> {
+  try {
+    await ensureStorageAvailable(userId, userTier, newDesigns, incomingBytes);
+    return true;
+  } catch (error: any) {
+    if (!(error instanceof StorageQuotaError)) {
+      throw error;
+    }
+
+    res.status(403).json({
+      error: "Storage Quota Exceeded",
+      code: error.code,
+      message: error.message,
+      usage: error.usage,
+      quota: error.quota,
+      upgradeUrl: "/pricing",
+      creditCharged: false,
+    });
+    return false;
+  }
+}
+
+/**
+ * Lighting scenarios are extra renders, so like alternative views they need a paid plan
+ */
+function ensureLightingAllowed(res: Response, userTier: string, scenarios?: LightingScenario[]): boolean {
+  if (!scenarios || userTier !== "free") {
+    return true;
+  }
+
+  res.status(403).json({
+    error: "Lighting Scenarios Require Subscription",
+    message: "Rendering a design under different lighting is only available for paid subscribers.",
+    upgradeUrl: "/pricing",
+  });
+  return false;
+}
+
+/**
+ * Fail a design created by a request that then couldn't queue it
+ * Left generating, it would be failed and refunded again by recovery. Returns
+ * whether the request should refund it: true unless recovery got there first.
+ */
+async function failUnqueuedDesign(designId: number | undefined): Promise<boolean> {
+  if (designId === undefined) {
+    return true;
+  }
+  const failed = await storage.failGenerations([designId], "Failed to start generation");
+  return failed.length > 0;
+}
+
+function uniqueScenarios(scenarios?: LightingScenario[]): LightingScenario[] | undefined {
+  return scenarios && Array.from(new Set(scenarios));
+}
+
+// A date or ISO timestamp query parameter; anything unparseable is ignored like other list filters
+function parseDateQuery(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function sendInvalidImage(res: Response, error: InvalidImageError): void {
+  res.status(422).json({
+    error: "Invalid Image",
+    code: error.code,
+    message: error.message,
+    creditCharged: false,
+  });
+}
+
+/**
+ * 422 response for a prompt the moderation classifier rejected
+ * Sent before credits are deducted, so nothing is charged
+ */
+function sendPromptRejection(res: Response, error: PromptRejectedError): void {
+  res.status(422).json({
+    error: "Prompt Rejected",
+    code: error.code,
+    categories: error.verdict.categories,
+    message: error.message,
+    creditCharged: false,
+  });
+}
+
 export default router;
@@ -3,6 +3,8 @@ import { z } from "zod";
 import { requireAuth } from "../middleware/requireAuth";
 import { storage } from "../storage";
 import { getCreditBalance } from "../services/credits.service";
+import { getStorageQuota } from "../services/storageQuota.service";
+import { describeRetentionNotice } from "../services/retention.service";
 
 const router = Router();
 
@@ -118,12 +120,21 @@ router.get("/stats", requireAuth, async (req: Request, res: Response): Promise<v
       .filter((t) => t.type === "purchase")
       .reduce((sum, t) => sum + t.amount, 0);
 
+    // Storage against the tier's quota, and any designs the retention policy is about to remove
+    const storageUsage = await storage.getUserStorageUsage(userId);
+    const retentionNotice = req.user!.tier === "free" ? await storage.getRetentionNotice(userId) : null;
+
     res.json({
       stats: {
         totalDesigns,
         favoriteDesigns,
         totalCreditsUsed,
         totalCreditsPurchased,
+        storage: {
+          ...storageUsage,
+          quota: getStorageQuota(req.user!.tier),
+        },
+        retention: retentionNotice && describeRetentionNotice(retentionNotice),
       },
     });
   } catch (error: any) {
@@ -135,4 +146,52 @@ router.get("/stats", requireAuth, async (req: Request, res: Response): Promise<v
   }
 });
 
+/**
+ * GET /api/users/notifications
+ * Recent notifications, newest first (`?unread=true` for ones not yet dismissed)
+ */
+router.get("/notifications", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notifications = await storage.getUserNotifications(req.user!.id, {
+      unreadOnly: req.query.unread === "true",
+    });
+
+    res.json({ notifications });
+  } catch (error: any) {
+    console.error("Error fetching notifications:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to fetch notifications",
+    });
+  }
+});
+
+/**
+ * POST /api/users/notifications/:id/read
+ * Dismiss a notification
+ */
+router.post("/notifications/:id/read", requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notificationId = parseInt(req.params.id as string);
+    if (isNaN(notificationId)) {
+      res.status(400).json({ error: "Invalid notification ID" });
+      return;
+    }
+
+    const notification = await storage.markNotificationRead(notificationId, req.user!.id);
+    if (!notification) {
+      res.status(404).json({ error: "Notification not found" });
+      return;
+    }
+
+    res.json({ notification });
+  } catch (error: any) {
+    console.error("Error dismissing notification:", error);
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to dismiss notification",
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,91 @@
+import { and, asc, eq, gt, isNull, or } from "drizzle-orm";
+import { db } from "../db";
+import { designs, type ImageVariant } from "../../shared/schema";
+import { createImageVariants } from "../services/thumbnail.service";
+
+/**
+ * Create library thumbnails for designs saved before variants existed
+ * Safe to re-run: only designs missing variants are touched.
+ */
+
+const BATCH_SIZE = 20;
+
+async function backfillImageVariants() {
+  console.log("🖼️  Creating thumbnails for existing designs...");
+
+  // Revisions share their room photo, so each photo is only resized once
+  const originalVariants = new Map<string, ImageVariant[]>();
+  let updated = 0;
+  let failed = 0;
+  let lastId = 0;
+
+  while (true) {
+    const rows = await db
+      .select({
+        id: designs.id,
+        status: designs.status,
+        originalImage: designs.originalImage,
+        generatedImage: designs.generatedImage,
+        originalImageVariants: designs.originalImageVariants,
+        generatedImageVariants: designs.generatedImageVariants,
+      })
+      .from(designs)
+      .where(
+        and(
+          gt(designs.id, lastId),
+          or(
+            isNull(designs.originalImageVariants),
+            and(eq(designs.status, "completed"), isNull(designs.generatedImageVariants))
+          )
+        )
+      )
+      .orderBy(asc(designs.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    for (const row of rows) {
+      lastId = row.id;
+
+      try {
+        let original = row.originalImageVariants;
+        if (!original) {
+          original = originalVariants.get(row.originalImage) || (await createImageVariants(row.originalImage));
+          originalVariants.set(row.originalImage, original);
+        }
+
+        const generated =
+          row.generatedImageVariants ||
+          (row.status === "completed" && row.generatedImage ? await createImageVariants(row.generatedImage) : null);
+
+        await db
+          .update(designs)
+          .set({ originalImageVariants: original, generatedImageVariants: generated })
+          .where(eq(designs.id, row.id));
+
+        updated++;
+      } catch (error) {
+        console.error(`  ⚠️  Design ${row.id} skipped:`, error);
+        failed++;
+      }
+    }
+
+    console.log(`  - Designs updated so far: ${updated}`);
+  }
+
+  console.log("\n🎉 Thumbnail backfill completed!");
+  console.log(`  - Updated: ${updated}`);
+  console.log(`  - Skipped: ${failed}`);
+}
+
+backfillImageVariants()
+  .then(() => {
+    console.log("\n✅ Backfill script completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Backfill script failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,42 @@
+import { and, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { db } from "../db";
+import { designs, REVISION_OPERATIONS } from "../../shared/schema";
+
+/**
+ * Fill in revision_operation for revisions saved before the column existed
+ * Those rows only recorded their operation in generationMetadata.settings;
+ * the library and trash now read the column alone.
+ * Safe to re-run: only revisions without an operation are touched.
+ */
+
+async function backfillRevisionOperations() {
+  console.log("🌳 Recording the operation of existing revisions...");
+
+  const recordedOperation = sql<string>`${designs.generationMetadata}->'settings'->>'operation'`;
+
+  // updatedAt is left alone - the designs themselves haven't changed
+  const updated = await db
+    .update(designs)
+    .set({ revisionOperation: sql`${recordedOperation}` })
+    .where(
+      and(
+        isNull(designs.revisionOperation),
+        isNotNull(designs.parentDesignId),
+        inArray(recordedOperation, [...REVISION_OPERATIONS])
+      )
+    )
+    .returning({ id: designs.id });
+
+  console.log("\n🎉 Revision backfill completed!");
+  console.log(`  - Revisions updated: ${updated.length}`);
+}
+
+backfillRevisionOperations()
+  .then(() => {
+    console.log("\n✅ Backfill script completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Backfill script failed:", error);
+    process.exit(1);
+  });
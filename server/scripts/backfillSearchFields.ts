@@ -0,0 +1,112 @@
+import { and, asc, eq, gt, isNull, or, sql } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { designs, generationCosts } from "../../shared/schema";
+import { extractDesignTags } from "../services/tags.service";
+
+/**
+ * Fill in the search fields of designs saved before My Designs search existed
+ * Tags come from each design's palette and settings. The creation tier is
+ * taken from the design's first provider call, or "free" for watermarked
+ * designs without one; others are left unknown. Designs without a stored
+ * search vector, or with new tags, get theirs built.
+ * Safe to re-run: only designs missing a field are touched.
+ */
+
+const BATCH_SIZE = 100;
+
+async function backfillSearchFields() {
+  console.log("🔎 Filling in search fields for existing designs...");
+
+  let checked = 0;
+  let tagged = 0;
+  let tiered = 0;
+  let indexed = 0;
+  let lastId = 0;
+
+  while (true) {
+    const rows = await db
+      .select({
+        id: designs.id,
+        status: designs.status,
+        palette: designs.palette,
+        generationMetadata: designs.generationMetadata,
+        tags: designs.tags,
+        creationTier: designs.creationTier,
+        hasWatermark: designs.hasWatermark,
+        hasSearchVector: sql<boolean>`${designs.searchVector} is not null`,
+        recordedTier: sql<string | null>`(
+          select ${generationCosts.userTier} from ${generationCosts}
+          where ${generationCosts.designId} = ${designs.id}
+          order by ${generationCosts.createdAt}
+          limit 1
+        )`,
+      })
+      .from(designs)
+      .where(
+        and(
+          gt(designs.id, lastId),
+          or(
+            and(isNull(designs.tags), eq(designs.status, "completed")),
+            isNull(designs.creationTier),
+            isNull(designs.searchVector)
+          )
+        )
+      )
+      .orderBy(asc(designs.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    const reindex: number[] = [];
+
+    for (const row of rows) {
+      lastId = row.id;
+      checked++;
+
+      const tags =
+        row.tags === null && row.status === "completed"
+          ? extractDesignTags(row.palette, row.generationMetadata?.settings)
+          : undefined;
+      const creationTier = row.creationTier ?? row.recordedTier ?? (row.hasWatermark ? "free" : null);
+
+      if (tags || !row.hasSearchVector) {
+        reindex.push(row.id);
+      }
+
+      if (!tags && !creationTier) {
+        continue;
+      }
+
+      await db
+        .update(designs)
+        .set({ ...(tags && { tags }), ...(creationTier && { creationTier }) })
+        .where(eq(designs.id, row.id));
+
+      if (tags) tagged++;
+      if (creationTier && !row.creationTier) tiered++;
+    }
+
+    await storage.refreshSearchVectors(reindex);
+    indexed += reindex.length;
+
+    console.log(`  - Designs checked so far: ${checked}`);
+  }
+
+  console.log("\n🎉 Search backfill completed!");
+  console.log(`  - Designs tagged: ${tagged}`);
+  console.log(`  - Creation tiers filled in: ${tiered}`);
+  console.log(`  - Search vectors built: ${indexed}`);
+}
+
+backfillSearchFields()
+  .then(() => {
+    console.log("\n✅ Backfill script completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Backfill script failed:", error);
+    process.exit(1);
+  });
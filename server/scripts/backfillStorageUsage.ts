@@ -0,0 +1,98 @@
+import { asc, gt, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { designs, designViews, imageBlobs } from "../../shared/schema";
+import { storage } from "../storage";
+import { isBlobKey } from "../services/blob.service";
+import { getBlobStore } from "../services/blobs";
+
+/**
+ * Record the size of stored images saved before storage quotas existed
+ * Quotas add up image_blobs rows, so every image a design or view refers to
+ * needs one. Safe to re-run: only keys without a recorded size are measured.
+ */
+
+const BATCH_SIZE = 50;
+
+async function backfillStorageUsage() {
+  console.log("📏 Measuring images stored by existing designs...");
+
+  const store = getBlobStore();
+  let checked = 0;
+  let recorded = 0;
+  let totalBytes = 0;
+  let lastId = 0;
+
+  while (true) {
+    const rows = await db
+      .select({
+        id: designs.id,
+        originalImage: designs.originalImage,
+        generatedImage: designs.generatedImage,
+        unwatermarkedImage: designs.unwatermarkedImage,
+      })
+      .from(designs)
+      .where(gt(designs.id, lastId))
+      .orderBy(asc(designs.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    lastId = rows[rows.length - 1].id;
+    checked += rows.length;
+
+    const views = await db
+      .select({ image: designViews.image })
+      .from(designViews)
+      .where(
+        inArray(
+          designViews.designId,
+          rows.map((row) => row.id)
+        )
+      );
+
+    const keys = Array.from(
+      new Set(
+        [
+          ...rows.flatMap((row) => [row.originalImage, row.generatedImage, row.unwatermarkedImage || ""]),
+          ...views.map((view) => view.image),
+        ].filter(isBlobKey)
+      )
+    );
+    if (keys.length === 0) {
+      continue;
+    }
+
+    const known = await db.select({ key: imageBlobs.key }).from(imageBlobs).where(inArray(imageBlobs.key, keys));
+    const knownKeys = new Set(known.map((row) => row.key));
+
+    for (const key of keys.filter((key) => !knownKeys.has(key))) {
+      const bytes = await store.size(key);
+      if (bytes === null) {
+        console.warn(`  ⚠️  Image ${key} is missing from the blob store`);
+        continue;
+      }
+
+      await storage.recordImageBlob(key, bytes);
+      recorded++;
+      totalBytes += bytes;
+    }
+
+    console.log(`  - Designs checked so far: ${checked}`);
+  }
+
+  console.log("\n🎉 Storage backfill completed!");
+  console.log(`  - Images measured: ${recorded}`);
+  console.log(`  - Total: ${(totalBytes / 1024 / 1024).toFixed(1)} MB`);
+}
+
+backfillStorageUsage()
+  .then(() => {
+    console.log("\n✅ Backfill script completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Backfill script failed:", error);
+    process.exit(1);
+  });
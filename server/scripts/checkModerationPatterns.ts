@@ -0,0 +1,46 @@
+import { DISALLOWED_PATTERNS, INJECTION_PATTERNS, type ModerationPattern } from "../services/moderation.rules";
+
+/**
+ * Check every moderation pattern against its example prompts
+ * Each pattern has to catch all of its `matches` and none of its `allows`.
+ * Exits non-zero when any example fails, so it can gate pattern changes.
+ */
+
+function checkPatterns(label: string, patterns: ModerationPattern[]): number {
+  let failures = 0;
+
+  for (const { pattern, matches, allows } of patterns) {
+    for (const text of matches.filter((example) => !pattern.test(example))) {
+      console.error(`  ❌ ${label} pattern ${pattern} missed "${text}"`);
+      failures++;
+    }
+    for (const text of allows.filter((example) => pattern.test(example))) {
+      console.error(`  ❌ ${label} pattern ${pattern} caught "${text}"`);
+      failures++;
+    }
+  }
+
+  return failures;
+}
+
+function checkModerationPatterns() {
+  console.log("🛡️  Checking moderation patterns against their examples...");
+
+  const failures =
+    checkPatterns("Disallowed", DISALLOWED_PATTERNS) + checkPatterns("Injection", INJECTION_PATTERNS);
+
+  if (failures > 0) {
+    throw new Error(`${failures} example(s) failed`);
+  }
+
+  console.log(`  - Patterns checked: ${DISALLOWED_PATTERNS.length + INJECTION_PATTERNS.length}`);
+}
+
+try {
+  checkModerationPatterns();
+  console.log("\n✅ Moderation check completed");
+  process.exit(0);
+} catch (error) {
+  console.error("\n❌ Moderation check failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,114 @@
+import { and, asc, eq, gt, like, or } from "drizzle-orm";
+import { db } from "../db";
+import { designs, designViews } from "../../shared/schema";
+import { storeImage } from "../services/blob.service";
+
+/**
+ * Move inline base64 images out of Postgres into the blob store
+ * Safe to re-run: only values that are still data URLs are touched, and
+ * rows are rewritten one at a time so an interrupted run loses nothing.
+ */
+
+const BATCH_SIZE = 20;
+
+const isInline = (value: string | null) => value !== null && value.startsWith("data:");
+
+async function migrateDesigns(): Promise<number> {
+  let migrated = 0;
+  let lastId = 0;
+
+  while (true) {
+    const rows = await db
+      .select({
+        id: designs.id,
+        originalImage: designs.originalImage,
+        generatedImage: designs.generatedImage,
+        unwatermarkedImage: designs.unwatermarkedImage,
+      })
+      .from(designs)
+      .where(
+        and(
+          gt(designs.id, lastId),
+          or(
+            like(designs.originalImage, "data:%"),
+            like(designs.generatedImage, "data:%"),
+            like(designs.unwatermarkedImage, "data:%")
+          )
+        )
+      )
+      .orderBy(asc(designs.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      return migrated;
+    }
+
+    for (const row of rows) {
+      // updatedAt is left alone - the design itself hasn't changed
+      await db
+        .update(designs)
+        .set({
+          originalImage: await storeImage(row.originalImage),
+          generatedImage: await storeImage(row.generatedImage),
+          ...(isInline(row.unwatermarkedImage) && { unwatermarkedImage: await storeImage(row.unwatermarkedImage!) }),
+        })
+        .where(eq(designs.id, row.id));
+
+      migrated++;
+      lastId = row.id;
+    }
+
+    console.log(`  - Designs migrated so far: ${migrated}`);
+  }
+}
+
+async function migrateDesignViews(): Promise<number> {
+  let migrated = 0;
+  let lastId = 0;
+
+  while (true) {
+    const rows = await db
+      .select({ id: designViews.id, image: designViews.image })
+      .from(designViews)
+      .where(and(gt(designViews.id, lastId), like(designViews.image, "data:%")))
+      .orderBy(asc(designViews.id))
+      .limit(BATCH_SIZE);
+
+    if (rows.length === 0) {
+      return migrated;
+    }
+
+    for (const row of rows) {
+      await db
+        .update(designViews)
+        .set({ image: await storeImage(row.image) })
+        .where(eq(designViews.id, row.id));
+
+      migrated++;
+      lastId = row.id;
+    }
+
+    console.log(`  - Design views migrated so far: ${migrated}`);
+  }
+}
+
+async function migrateImagesToBlobs() {
+  console.log("📦 Moving inline images to the blob store...");
+
+  const designCount = await migrateDesigns();
+  const viewCount = await migrateDesignViews();
+
+  console.log("\n🎉 Image migration completed successfully!");
+  console.log(`  - Designs: ${designCount}`);
+  console.log(`  - Design views: ${viewCount}`);
+}
+
+migrateImagesToBlobs()
+  .then(() => {
+    console.log("\n✅ Migration script completed");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("\n❌ Migration script failed:", error);
+    process.exit(1);
+  });
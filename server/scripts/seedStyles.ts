@@ -1,6 +1,7 @@
 import { db } from "../db";
-import { designStyles, roomTypes } from "../../shared/schema";
+import { designStyles, roomTypes, promptTemplates } from "../../shared/schema";
 import type { InsertDesignStyle, InsertRoomType } from "../../shared/schema";
+import { DEFAULT_PROMPT_TEMPLATE } from "../services/prompt.service";
 
 /**
  * Seed Design Styles
@@ -243,6 +244,19 @@ async function seedDatabase() {
   console.log("🌱 Starting database seed...");
 
   try {
+    // Seed the default prompt template so wording can be versioned from the database
+    const existingTemplates = await db.select().from(promptTemplates).limit(1);
+    if (existingTemplates.length === 0) {
+      console.log("📝 Seeding default prompt template...");
+      await db.insert(promptTemplates).values({
+        name: DEFAULT_PROMPT_TEMPLATE.name,
+        version: DEFAULT_PROMPT_TEMPLATE.version,
+        description: "Original prompt skeleton",
+        body: DEFAULT_PROMPT_TEMPLATE.body,
+      });
+      console.log("✅ Inserted default prompt template");
+    }
+
     // Check if styles already exist
     const existingStyles = await db.select().from(designStyles).limit(1);
     if (existingStyles.length > 0) {
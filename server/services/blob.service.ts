@@ -0,0 +1,162 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { getBlobStore } from "./blobs";
+import { parseDataUrl, toDataUrl, extensionForMimeType, type DecodedImage } from "./image.service";
+
+/**
+ * Image payloads in the blob store
+ * Design rows hold content-addressed blob keys instead of base64 data URLs.
+ * Rows written before the move keep their data URL until the migration
+ * script (npm run blobs:migrate) has run, so every reader accepts both.
+ */
+
+// sha256 of the image bytes plus an extension for its type
+const BLOB_KEY_PATTERN = /^[0-9a-f]{64}\.(jpg|png|webp)$/;
+
+// Keys checked per reference lookup in deleteUnreferencedImages
+const REFERENCE_CHECK_BATCH_SIZE = 500;
+
+// Signed URLs stay valid for at least this long
+const URL_TTL_SECONDS = parseInt(process.env.BLOB_URL_TTL_SECONDS || "3600");
+
+// A random secret would break the URLs handed out by every other instance and before every restart
+if (!process.env.BLOB_URL_SECRET && process.env.NODE_ENV === "production") {
+  throw new Error("BLOB_URL_SECRET environment variable is required in production");
+}
+
+const URL_SECRET = process.env.BLOB_URL_SECRET || randomBytes(32).toString("hex");
+if (!process.env.BLOB_URL_SECRET) {
+  console.warn("⚠️  BLOB_URL_SECRET is not set - image URLs will stop working when the server restarts");
+}
+
+export function isBlobKey(ref: string): boolean {
+  return BLOB_KEY_PATTERN.test(ref);
+}
+
+/**
+ * Save a data URL image and return its blob key
+ * Keys and empty values (designs still generating) pass through unchanged.
+ */
+export async function storeImage(image: string): Promise<string> {
+  if (!image || isBlobKey(image)) {
+    return image;
+  }
+
+  const { buffer, mimeType } = parseDataUrl(image);
+  return storeImageBuffer(buffer, mimeType);
+}
+
+/**
+ * Save encoded image bytes and return their blob key
+ */
+export async function storeImageBuffer(buffer: Buffer, mimeType: string): Promise<string> {
+  const key = `${createHash("sha256").update(buffer).digest("hex")}.${extensionForMimeType(mimeType)}`;
+
+  await getBlobStore().put(key, buffer, mimeType);
+  await storage.recordImageBlob(key, buffer.length);
+  return key;
+}
+
+/**
+ * Bytes of a stored image, from its blob key or a legacy data URL
+ */
+export async function readImage(ref: string): Promise<DecodedImage> {
+  if (!isBlobKey(ref)) {
+    return parseDataUrl(ref);
+  }
+
+  const blob = await getBlobStore().get(ref);
+  if (!blob) {
+    throw new Error(`Image ${ref} is missing from the blob store`);
+  }
+
+  return { buffer: blob.data, mimeType: blob.contentType };
+}
+
+/**
+ * Size in bytes of a stored image (0 for empty values and missing blobs)
+ */
+export async function imageByteSize(ref: string): Promise<number> {
+  if (!ref) {
+    return 0;
+  }
+
+  if (!isBlobKey(ref)) {
+    return parseDataUrl(ref).buffer.length;
+  }
+
+  return (await getBlobStore().size(ref)) ?? 0;
+}
+
+/**
+ * Delete images that no design or design view refers to any more
+ * Blobs are shared (variations, reverts and repeat uploads of a photo reuse
+ * the same key), so callers pass the images of rows they've just deleted and
+ * only a blob's last reference removes it. Returns how many were deleted.
+ */
+export async function deleteUnreferencedImages(refs: string[]): Promise<number> {
+  const keys = Array.from(new Set(refs.filter(isBlobKey)));
+  const store = getBlobStore();
+  let deleted = 0;
+
+  // A large purge can free thousands of images; keep each lookup's parameter list bounded
+  for (let i = 0; i < keys.length; i += REFERENCE_CHECK_BATCH_SIZE) {
+    const batch = keys.slice(i, i + REFERENCE_CHECK_BATCH_SIZE);
+    const referenced = new Set(await storage.getReferencedImageKeys(batch));
+    const unreferenced = batch.filter((key) => !referenced.has(key));
+
+    for (const key of unreferenced) {
+      await store.delete(key);
+      deleted++;
+    }
+    await storage.deleteImageBlobs(unreferenced);
+  }
+
+  return deleted;
+}
+
+/**
+ * A stored image as a data URL, for the services that process images
+ */
+export async function loadImage(ref: string): Promise<string> {
+  if (!isBlobKey(ref)) {
+    return ref;
+  }
+
+  const { buffer, mimeType } = await readImage(ref);
+  return toDataUrl(buffer, mimeType);
+}
+
+function signKey(key: string, expires: number): string {
+  return createHmac("sha256", URL_SECRET).update(`${key}:${expires}`).digest("base64url");
+}
+
+/**
+ * Short-lived URL for a stored image, served by GET /api/blobs/:key
+ * Only handed out by endpoints that have checked access to the design. The
+ * expiry is rounded up to a whole TTL window so a design's URLs (and the
+ * browser cache) stay the same across requests within that window.
+ */
+export function signImageUrl(ref: string): string {
+  if (!isBlobKey(ref)) {
+    return ref;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const expires = (Math.floor(now / URL_TTL_SECONDS) + 2) * URL_TTL_SECONDS;
+
+  return `/api/blobs/${ref}?expires=${expires}&signature=${signKey(ref, expires)}`;
+}
+
+/**
+ * Check the signature and expiry of a signed image URL
+ */
+export function verifyImageUrl(key: string, expires: number, signature: string): boolean {
+  if (!isBlobKey(key) || !Number.isInteger(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signKey(key, expires));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,40 @@
+import { LocalBlobStore } from "./local.store";
+import { S3BlobStore } from "./s3.store";
+import type { BlobStore } from "./types";
+
+export * from "./types";
+
+let store: BlobStore | null = null;
+
+/**
+ * The configured blob store (BLOB_STORE=local or s3; see .env.example)
+ * Production needs s3: local files are lost when an instance is replaced
+ * and aren't shared between instances.
+ */
+export function getBlobStore(): BlobStore {
+  if (store) {
+    return store;
+  }
+
+  if (process.env.BLOB_STORE === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET is required when BLOB_STORE=s3");
+    }
+
+    store = new S3BlobStore({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+      prefix: process.env.S3_PREFIX || "",
+    });
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("BLOB_STORE=s3 is required in production - the local blob store isn't durable");
+  } else {
+    store = new LocalBlobStore(process.env.BLOB_LOCAL_DIR || "data/blobs");
+  }
+
+  return store;
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { BlobStore, BlobStoreId, StoredBlob } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+/**
+ * Blobs as files under a local directory
+ * Files are sharded by the first two characters of their key so no
+ * directory grows too large. Suited to development and single-server setups.
+ */
+export class LocalBlobStore implements BlobStore {
+  id: BlobStoreId = "local";
+
+  constructor(private readonly root: string) {}
+
+  private pathFor(key: string): string {
+    return path.join(this.root, key.slice(0, 2), key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    if (await this.exists(key)) {
+      return;
+    }
+
+    // Write then rename so readers never see a partial file
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    try {
+      const data = await fs.readFile(this.pathFor(key));
+      return { data, contentType: CONTENT_TYPES[path.extname(key).slice(1)] || "application/octet-stream" };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await fs.stat(this.pathFor(key))).size;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
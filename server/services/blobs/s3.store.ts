@@ -0,0 +1,99 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import type { BlobStore, BlobStoreId, StoredBlob } from "./types";
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // Set for S3-compatible services (R2, MinIO, Spaces)
+  forcePathStyle?: boolean; // MinIO and most self-hosted services need path-style URLs
+  accessKeyId?: string; // Falls back to the default AWS credential chain
+  secretAccessKey?: string;
+  prefix?: string; // Key prefix inside the bucket, e.g. "designs/"
+}
+
+function isNotFound(error: any): boolean {
+  return error?.name === "NoSuchKey" || error?.name === "NotFound" || error?.$metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Blobs in an S3 or S3-compatible bucket
+ */
+export class S3BlobStore implements BlobStore {
+  id: BlobStoreId = "s3";
+  private client: S3Client;
+
+  constructor(private readonly options: S3BlobStoreOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.options.prefix || ""}${key}`;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    if (await this.exists(key)) {
+      return;
+    }
+
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: contentType,
+        CacheControl: "private, max-age=31536000, immutable", // Content-addressed - never changes
+      })
+    );
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) })
+      );
+      const data = Buffer.from(await response.Body!.transformToByteArray());
+      return { data, contentType: response.ContentType || "application/octet-stream" };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== null;
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) })
+      );
+      return response.ContentLength ?? 0;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: this.objectKey(key) }));
+  }
+}
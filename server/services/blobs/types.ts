@@ -0,0 +1,20 @@
+export type BlobStoreId = "local" | "s3";
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * Storage backend for image payloads
+ * Keys are content-addressed (see blob.service), so a put of an existing key
+ * is a no-op and stored blobs never change.
+ */
+export interface BlobStore {
+  id: BlobStoreId;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>; // null when the key doesn't exist
+  exists(key: string): Promise<boolean>;
+  size(key: string): Promise<number | null>; // Bytes, or null when the key doesn't exist
+  delete(key: string): Promise<void>;
+}
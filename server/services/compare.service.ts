@@ -0,0 +1,156 @@
+import sharp from "sharp";
+import { parseDataUrl, escapeXml } from "./image.service";
+import { getWatermarkOptions } from "./watermark.service";
+
+/**
+ * Before/after comparison images for sharing
+ * Both panels are cropped to the generated image's size so the room lines up.
+ */
+
+export const COMPARISON_LAYOUTS = ["side-by-side", "top-bottom", "diagonal"] as const;
+
+export type ComparisonLayout = (typeof COMPARISON_LAYOUTS)[number];
+
+export interface ComparisonOptions {
+  layout: ComparisonLayout;
+  labels: boolean; // "Before" / "After" tags on each panel
+  branding: boolean; // Site name along the bottom edge
+}
+
+// Panels are capped so a side-by-side 4K design stays a shareable size
+const MAX_PANEL_EDGE = 1600;
+
+interface Label {
+  text: string;
+  x: number;
+  y: number;
+  align: "start" | "end"; // Which side of the pill x refers to
+}
+
+/**
+ * Compose the original photo and generated design into one PNG
+ */
+export async function buildComparisonImage(
+  originalImage: string,
+  generatedImage: string,
+  options: ComparisonOptions
+): Promise<Buffer> {
+  const generated = parseDataUrl(generatedImage).buffer;
+  const { width: sourceWidth, height: sourceHeight } = await sharp(generated).metadata();
+
+  if (!sourceWidth || !sourceHeight) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  const scale = Math.min(1, MAX_PANEL_EDGE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+
+  const [before, after] = await Promise.all(
+    [parseDataUrl(originalImage).buffer, generated].map((buffer) =>
+      sharp(buffer).resize(width, height, { fit: "cover", position: "centre" }).png().toBuffer()
+    )
+  );
+
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.035));
+  const margin = Math.round(fontSize * 0.8);
+  const divider = Math.max(4, Math.round(Math.max(width, height) * 0.004));
+
+  let canvasWidth = width;
+  let canvasHeight = height;
+  let panels: sharp.OverlayOptions[];
+  let labels: Label[];
+  let lines = "";
+
+  switch (options.layout) {
+    case "side-by-side":
+      canvasWidth = width * 2 + divider;
+      panels = [
+        { input: before, left: 0, top: 0 },
+        { input: after, left: width + divider, top: 0 },
+      ];
+      labels = [
+        { text: "BEFORE", x: margin, y: margin, align: "start" },
+        { text: "AFTER", x: width + divider + margin, y: margin, align: "start" },
+      ];
+      break;
+    case "top-bottom":
+      canvasHeight = height * 2 + divider;
+      panels = [
+        { input: before, left: 0, top: 0 },
+        { input: after, left: 0, top: height + divider },
+      ];
+      labels = [
+        { text: "BEFORE", x: margin, y: margin, align: "start" },
+        { text: "AFTER", x: margin, y: height + divider + margin, align: "start" },
+      ];
+      break;
+    case "diagonal": {
+      // Original fills the top-left triangle, the design the bottom-right
+      const triangle = Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+          `<polygon points="0,0 ${width},0 0,${height}" fill="#ffffff"/>` +
+          `</svg>`
+      );
+      const beforeTriangle = await sharp(before).ensureAlpha().composite([{ input: triangle, blend: "dest-in" }]).png().toBuffer();
+
+      panels = [
+        { input: after, left: 0, top: 0 },
+        { input: beforeTriangle, left: 0, top: 0 },
+      ];
+      labels = [
+        { text: "BEFORE", x: margin, y: margin, align: "start" },
+        { text: "AFTER", x: width - margin, y: height - margin - pillHeight(fontSize), align: "end" },
+      ];
+      lines = `<line x1="${width}" y1="0" x2="0" y2="${height}" stroke="#ffffff" stroke-width="${divider}"/>`;
+      break;
+    }
+  }
+
+  const overlay =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${canvasWidth}" height="${canvasHeight}">` +
+    lines +
+    (options.labels ? labels.map((label) => labelPill(label, fontSize)).join("") : "") +
+    (options.branding ? brandingText(canvasWidth, canvasHeight, fontSize) : "") +
+    `</svg>`;
+
+  return await sharp({
+    create: { width: canvasWidth, height: canvasHeight, channels: 4, background: "#ffffff" },
+  })
+    .composite([...panels, { input: Buffer.from(overlay), left: 0, top: 0 }])
+    .png()
+    .toBuffer();
+}
+
+function pillHeight(fontSize: number): number {
+  return Math.round(fontSize * 1.8);
+}
+
+/**
+ * Dark rounded tag with white text
+ */
+function labelPill(label: Label, fontSize: number): string {
+  const height = pillHeight(fontSize);
+  const width = Math.round(label.text.length * fontSize * 0.72 + fontSize * 1.6);
+  const left = label.align === "end" ? label.x - width : label.x;
+
+  return (
+    `<rect x="${left}" y="${label.y}" width="${width}" height="${height}" rx="${height / 2}" fill="#000000" fill-opacity="0.6"/>` +
+    `<text x="${left + width / 2}" y="${label.y + height / 2}" text-anchor="middle" dominant-baseline="central" ` +
+    `font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="bold" letter-spacing="2" fill="#ffffff">` +
+    escapeXml(label.text) +
+    `</text>`
+  );
+}
+
+function brandingText(canvasWidth: number, canvasHeight: number, fontSize: number): string {
+  const size = Math.round(fontSize * 0.8);
+
+  return (
+    `<text x="${canvasWidth / 2}" y="${canvasHeight - size}" text-anchor="middle" ` +
+    `font-family="Helvetica, Arial, sans-serif" font-size="${size}" font-weight="bold" ` +
+    `fill="#ffffff" fill-opacity="0.85" stroke="#000000" stroke-opacity="0.35" stroke-width="1">` +
+    escapeXml(getWatermarkOptions().text) +
+    `</text>`
+  );
+}
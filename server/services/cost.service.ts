@@ -0,0 +1,96 @@
+import { storage } from "../storage";
+import type { ImageGenerationProvider, ImageGenerationOutput, ImageQuality } from "./providers";
+
+/**
+ * Provider spend tracking
+ * Every image provider call (main render, each alternative view, each retry)
+ * is written to the generation_costs ledger with its USD cost.
+ */
+
+export type ProviderCallPurpose = "main" | "alternative" | "edit";
+
+export interface CostContext {
+  userId: number;
+  designId?: number;
+  userTier: string; // Tier at the time of the call
+  styleId?: number | null;
+}
+
+// USD list price per output image by model, quality and size
+const IMAGE_PRICING: Record<string, Record<ImageQuality, Record<string, number>>> = {
+  "dall-e-3": {
+    standard: { "1024x1024": 0.04, "1024x1792": 0.08, "1792x1024": 0.08 },
+    hd: { "1024x1024": 0.08, "1024x1792": 0.12, "1792x1024": 0.12 },
+  },
+  // gpt-image-1 is billed at "medium" for standard and "high" for hd
+  "gpt-image-1": {
+    standard: { "1024x1024": 0.042, "1024x1536": 0.063, "1536x1024": 0.063 },
+    hd: { "1024x1024": 0.167, "1024x1536": 0.25, "1536x1024": 0.25 },
+  },
+};
+
+/**
+ * Cost of one generated image
+ * Unknown sizes fall back to the model's square price; unpriced models (mock) are free
+ */
+export function estimateImageCost(model: string, quality: ImageQuality, size: string): number {
+  const prices = IMAGE_PRICING[model]?.[quality];
+  if (!prices) {
+    return 0;
+  }
+  return prices[size] ?? prices["1024x1024"] ?? 0;
+}
+
+/**
+ * Run a provider call and record it in the cost ledger
+ * Failed calls are recorded at zero cost and the error is rethrown
+ */
+export async function trackProviderCall(
+  context: CostContext,
+  call: {
+    purpose: ProviderCallPurpose;
+    provider: ImageGenerationProvider;
+    quality: ImageQuality;
+    attempt?: number;
+  },
+  run: () => Promise<ImageGenerationOutput>
+): Promise<ImageGenerationOutput> {
+  try {
+    const output = await run();
+    await recordProviderCall(context, call, {
+      size: output.size,
+      succeeded: true,
+      costUsd: estimateImageCost(output.model, call.quality, output.size),
+    });
+    return output;
+  } catch (error) {
+    await recordProviderCall(context, call, { size: null, succeeded: false, costUsd: 0 });
+    throw error;
+  }
+}
+
+/**
+ * Ledger writes never fail the generation they describe
+ */
+async function recordProviderCall(
+  context: CostContext,
+  call: { purpose: ProviderCallPurpose; provider: ImageGenerationProvider; quality: ImageQuality; attempt?: number },
+  outcome: { size: string | null; succeeded: boolean; costUsd: number }
+): Promise<void> {
+  try {
+    await storage.createGenerationCost({
+      userId: context.userId,
+      designId: context.designId ?? null,
+      userTier: context.userTier,
+      styleId: context.styleId ?? null,
+      purpose: call.purpose,
+      attempt: call.attempt ?? 1,
+      provider: call.provider.id,
+      model: call.provider.model,
+      quality: call.quality,
+      ...outcome,
+    });
+  } catch (error) {
+    console.error("Failed to record generation cost:", error);
+  }
+}
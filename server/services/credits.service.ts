@@ -67,7 +67,7 @@ export async function deductCredits(
  */
 export async function refundCredits(
   userId: number,
-  designId: number,
+  designId: number | undefined,
   amount: number = 1
 ): Promise<CreditTransaction> {
   // Get user with row lock
@@ -100,7 +100,9 @@ export async function refundCredits(
     type: "refund",
     amount: amount, // Positive for refund
     balanceAfter: newBalance,
-    description: `Refund for failed design generation (ID: ${designId})`,
+    description: designId
+      ? `Refund for failed design generation (ID: ${designId})`
+      : "Refund for failed design generation",
     designId,
   });
 
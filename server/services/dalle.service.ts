@@ -1,73 +1,160 @@
-import OpenAI from "openai";
-import type { DesignGenerationRequest, DesignStyle, RoomType } from "@shared/schema";
+import type {
+  DesignGenerationRequest,
+  DesignStyle,
+  RoomType,
+  ImageProviderId,
+  AspectRatio,
+  StagingDensity,
+  LightingScenario,
+  DesignViewKind,
+  PromptConstraints,
+} from "@shared/schema";
 import { storage } from "../storage";
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-if (!process.env.OPENAI_API_KEY) {
-  console.warn("⚠️  OPENAI_API_KEY not set. AI features will not work.");
+import {
+  getImageProvider,
+  getEditProvider,
+  getStagingProvider,
+  getLightingProvider,
+  callWithResilience,
+  createDeadline,
+  ProviderError,
+  type ImageGenerationProvider,
+  type ImageGenerationOutput,
+  type ImageQuality,
+  type ImageOrientation,
+  type SourceImageLock,
+} from "./providers";
+import { extractDominantColors } from "./image.service";
+import { trackProviderCall, type CostContext, type ProviderCallPurpose } from "./cost.service";
+import { getOrientation } from "./resolution.service";
+import { resolveStyleBlend } from "./styleBlend.service";
+import {
+  selectPromptTemplate,
+  buildPromptVariables,
+  renderPromptTemplate,
+  getTemplateVariables,
+  type ResolvedPromptTemplate,
+} from "./prompt.service";
+
+export interface AlternativeView extends AlternativeViewSpec {
+  image: string;
 }
 
 export interface GenerationResult {
   generatedImage: string;
-  alternativeViews?: string[];
+  alternativeViews?: AlternativeView[];
   metadata: {
     generationTime: number;
     dallePrompt: string;
+    provider: string;
     model: string;
     quality: string;
+    promptTemplate?: { id: number | null; name: string; version: number };
   };
 }
 
+export interface GenerationContext {
+  userId: number;
+  designId: number;
+  userTier: string;
+}
+
+export type GenerationStage =
+  | "queued"
+  | "preparing"
+  | "rendering"
+  | "alternatives"
+  | "finalizing"
+  | "completed"
+  | "failed";
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  progress: number; // 0-100
+  message?: string;
+}
+
 /**
- * Generate AI-powered interior design visualization using DALL-E 3
+ * Generate AI-powered interior design visualization
+ * The image provider is chosen per request (see ./providers)
  */
 export async function generateRoomDesign(
   request: DesignGenerationRequest,
-  userId: number
+  context: GenerationContext,
+  onProgress: (progress: GenerationProgress) => void = () => {}
 ): Promise<GenerationResult> {
   const startTime = Date.now();
+  const deadline = createDeadline();
+
+  onProgress({ stage: "preparing", progress: 10, message: "Preparing your design" });
 
-  // Get style and room type details
-  const style = await storage.getDesignStyle(request.styleId);
+  // Get style (or the combined style of a blend) and room type details
+  const style = request.styleBlend
+    ? await resolveStyleBlend(request.styleBlend)
+    : await storage.getDesignStyle(request.styleId);
   const roomType = await storage.getRoomType(request.roomTypeId);
 
   if (!style || !roomType) {
     throw new Error("Invalid style or room type");
   }
 
-  // Construct DALL-E prompt with smart prompt engineering
-  const basePrompt = constructDesignPrompt(style, roomType, request.customPrompt);
+  const isStaging = request.mode === "stage";
+  const provider = resolveGenerationProvider(request);
+  const costContext: CostContext = { ...context, styleId: style.id };
 
-  console.log(`🎨 Generating design with DALL-E 3 for user ${userId}`);
+  // Staging has its own fixed strategy; restyles use the assigned template
+  const template = isStaging ? null : await selectPromptTemplate(style, roomType);
+  const basePrompt = template
+    ? constructDesignPrompt(provider, template, style, roomType, request)
+    : constructStagingPrompt(provider, style, roomType, request);
+
+  console.log(`🎨 Generating design with ${provider.id} (${provider.model}) for user ${context.userId}`);
   console.log(`📝 Prompt: ${basePrompt.substring(0, 100)}...`);
 
   try {
-    // Call DALL-E 3 for main image
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: basePrompt,
-      n: 1,
-      size: "1024x1024",
-      quality: "hd", // Use HD quality for better interior design results
-      response_format: "b64_json",
-    });
-
-    const generatedImageBase64 = response.data[0].b64_json;
-    if (!generatedImageBase64) {
-      throw new Error("DALL-E 3 returned no image data");
-    }
+    onProgress({ stage: "rendering", progress: 25, message: "Rendering your room" });
 
-    const generatedImageUrl = `data:image/png;base64,${generatedImageBase64}`;
+    // Main image uses HD quality for better interior design results
+    const result = await callProvider(provider, costContext, { purpose: "main", quality: "hd" }, deadline, (signal) =>
+      provider.generate({
+        prompt: basePrompt,
+        quality: "hd",
+        sourceImage: request.originalImage,
+        orientation: getOrientation(request.aspectRatio),
+        signal,
+      })
+    );
 
     // Generate alternative views if requested
-    let alternativeViews: string[] = [];
+    const orientation = getOrientation(request.aspectRatio);
+    let alternativeViews: AlternativeView[] = [];
     if (request.generateAlternatives) {
+      onProgress({ stage: "alternatives", progress: 60, message: "Rendering alternative views" });
       console.log("🔄 Generating alternative views...");
-      alternativeViews = await generateAlternativeViews(basePrompt, style, roomType);
+      alternativeViews = await generateAlternativeViews(
+        provider,
+        basePrompt,
+        PERSPECTIVE_VIEWS,
+        request.originalImage,
+        orientation,
+        costContext,
+        deadline
+      );
+    }
+
+    if (request.lightingScenarios) {
+      onProgress({ stage: "alternatives", progress: 75, message: "Rendering lighting scenarios" });
+      alternativeViews.push(
+        ...(await generateAlternativeViews(
+          provider,
+          basePrompt,
+          lightingViews(request.lightingScenarios),
+          result.image,
+          orientation,
+          costContext,
+          deadline
+        ))
+      );
     }
 
     const generationTime = Date.now() - startTime;
@@ -75,144 +162,409 @@ export async function generateRoomDesign(
     console.log(`✅ Design generated successfully in ${generationTime}ms`);
 
     return {
-      generatedImage: generatedImageUrl,
+      generatedImage: result.image,
       alternativeViews,
       metadata: {
         generationTime,
         dallePrompt: basePrompt,
-        model: "dall-e-3",
+        provider: provider.id,
+        model: result.model,
+        quality: result.quality,
+        ...(template && { promptTemplate: { id: template.id, name: template.name, version: template.version } }),
+      },
+    };
+  } catch (error: any) {
+    console.error(`❌ ${provider.model} generation failed:`, error);
+    throw error instanceof ProviderError ? error : new Error(`AI generation failed: ${error.message || "Unknown error"}`);
+  }
+}
+
+export interface RegionEditRequest extends PromptConstraints {
+  image: string; // Current generated image of the parent design
+  mask: string; // Provider edit mask from brushMaskToEditMask, checked before the edit was charged
+  instruction: string;
+  styleId: number | null;
+  aspectRatio?: AspectRatio; // Aspect ratio of the design being edited
+  provider?: ImageProviderId;
+}
+
+/**
+ * Regenerate only the masked region of an existing design
+ */
+export async function editDesignRegion(
+  request: RegionEditRequest,
+  context: GenerationContext,
+  onProgress: (progress: GenerationProgress) => void = () => {}
+): Promise<GenerationResult> {
+  const startTime = Date.now();
+  const deadline = createDeadline();
+
+  onProgress({ stage: "preparing", progress: 10, message: "Preparing your edit" });
+
+  const provider = getEditProvider(request.provider);
+  const style = request.styleId ? await storage.getDesignStyle(request.styleId) : undefined;
+
+  const prompt = constructEditPrompt(provider, request, style);
+
+  console.log(`🖌️  Editing design with ${provider.id} for user ${context.userId}`);
+
+  try {
+    onProgress({ stage: "rendering", progress: 30, message: "Repainting the selected area" });
+
+    const costContext: CostContext = { ...context, styleId: request.styleId };
+    const result = await callProvider(provider, costContext, { purpose: "edit", quality: "hd" }, deadline, (signal) =>
+      provider.editRegion!({
+        prompt,
         quality: "hd",
+        image: request.image,
+        mask: request.mask,
+        orientation: getOrientation(request.aspectRatio),
+        signal,
+      })
+    );
+
+    const generationTime = Date.now() - startTime;
+
+    console.log(`✅ Region edit completed in ${generationTime}ms`);
+
+    return {
+      generatedImage: result.image,
+      metadata: {
+        generationTime,
+        dallePrompt: prompt,
+        provider: provider.id,
+        model: result.model,
+        quality: result.quality,
       },
     };
   } catch (error: any) {
-    console.error("❌ DALL-E 3 generation failed:", error);
-    throw new Error(`AI generation failed: ${error.message || "Unknown error"}`);
+    console.error(`❌ ${provider.model} region edit failed:`, error);
+    throw error instanceof ProviderError ? error : new Error(`AI edit failed: ${error.message || "Unknown error"}`);
   }
 }
 
 /**
- * Construct optimized prompt for interior design generation
+ * Construct prompt for a masked region edit
  */
-function constructDesignPrompt(
-  style: DesignStyle,
-  roomType: RoomType,
-  customPrompt?: string
+function constructEditPrompt(
+  provider: ImageGenerationProvider,
+  request: RegionEditRequest,
+  style?: DesignStyle
 ): string {
-  // Base prompt structure for professional interior design
-  let prompt = `Professional interior design photograph of a ${roomType.name.toLowerCase()} in ${style.name} style. `;
+  let prompt = `Edit only the masked area of this interior design photograph: ${request.instruction.trim()}. `;
 
-  // Add room type context for better AI understanding
-  if (roomType.promptContext) {
-    prompt += `${roomType.promptContext}. `;
+  if (style) {
+    prompt += `Keep it consistent with the room's ${style.name} style. `;
   }
 
-  // Add style-specific modifiers for accurate styling
-  if (style.promptModifiers && style.promptModifiers.length > 0) {
-    const modifiers = style.promptModifiers.join(", ");
-    prompt += `Key design elements: ${modifiers}. `;
+  prompt += `Match the existing lighting, perspective, scale and materials so the change blends seamlessly. Leave everything outside the masked area unchanged.`;
+
+  return appendConstraints(prompt, provider, request);
+}
+
+export interface VariationOptions {
+  keepPalette: boolean;
+  keepLayout: boolean;
+  moreBold: boolean;
+}
+
+// Constraints are only recorded - the parent's basePrompt already renders them
+export interface VariationRequest extends PromptConstraints {
+  basePrompt: string; // generationMetadata.dallePrompt of the design being remixed
+  lightingScenarios?: LightingScenario[]; // Rendered from the finished variant as alternative views
+  sourceImage: string; // Room photo, or the design itself when keeping its layout
+  paletteImage: string; // Design whose colors "keep palette" preserves
+  styleId: number | null;
+  options: VariationOptions;
+  variant: number; // 1-based index within the request
+  variantCount: number;
+  aspectRatio?: AspectRatio;
+  provider?: ImageProviderId;
+}
+
+/**
+ * Render one variant of an existing design from its stored prompt
+ */
+export async function generateDesignVariation(
+  request: VariationRequest,
+  context: GenerationContext,
+  onProgress: (progress: GenerationProgress) => void = () => {}
+): Promise<GenerationResult> {
+  const startTime = Date.now();
+  const deadline = createDeadline();
+
+  onProgress({ stage: "preparing", progress: 10, message: "Preparing your variation" });
+
+  // Lighting views relight the variation, so they need a provider that works from it
+  const provider = request.lightingScenarios ? getLightingProvider(request.provider) : getImageProvider(request.provider);
+  const palette = request.options.keepPalette ? await extractDominantColors(request.paletteImage, 5) : [];
+  const prompt = constructVariationPrompt(request, palette.map((color) => color.hex));
+
+  console.log(`🔀 Generating variation ${request.variant}/${request.variantCount} with ${provider.id} for user ${context.userId}`);
+
+  try {
+    onProgress({ stage: "rendering", progress: 25, message: "Rendering your variation" });
+
+    const costContext: CostContext = { ...context, styleId: request.styleId };
+    const result = await callProvider(provider, costContext, { purpose: "main", quality: "hd" }, deadline, (signal) =>
+      provider.generate({
+        prompt,
+        quality: "hd",
+        sourceImage: request.sourceImage,
+        orientation: getOrientation(request.aspectRatio),
+        signal,
+      })
+    );
+
+    let alternativeViews: AlternativeView[] = [];
+    if (request.lightingScenarios) {
+      onProgress({ stage: "alternatives", progress: 70, message: "Rendering lighting scenarios" });
+      alternativeViews = await generateAlternativeViews(
+        provider,
+        prompt,
+        lightingViews(request.lightingScenarios),
+        result.image,
+        getOrientation(request.aspectRatio),
+        costContext,
+        deadline
+      );
+    }
+
+    const generationTime = Date.now() - startTime;
+
+    console.log(`✅ Variation generated in ${generationTime}ms`);
+
+    return {
+      generatedImage: result.image,
+      alternativeViews,
+      metadata: {
+        generationTime,
+        dallePrompt: prompt,
+        provider: provider.id,
+        model: result.model,
+        quality: result.quality,
+      },
+    };
+  } catch (error: any) {
+    console.error(`❌ ${provider.model} variation failed:`, error);
+    throw error instanceof ProviderError ? error : new Error(`AI generation failed: ${error.message || "Unknown error"}`);
+  }
+}
+
+/**
+ * Construct prompt for a variation of an existing design
+ * Each variant gets its own index so parallel variants don't converge
+ */
+function constructVariationPrompt(request: VariationRequest, palette: string[]): string {
+  const { options } = request;
+  let prompt = `${request.basePrompt} `;
+
+  prompt += `Create variation ${request.variant} of ${request.variantCount}: a fresh take on this design with different furniture pieces, decor and styling details. `;
+
+  if (options.keepLayout) {
+    prompt += `Keep the furniture arrangement and layout of the reference image; change the individual pieces, materials and accessories. `;
   }
 
-  // Add user's custom requirements
-  if (customPrompt && customPrompt.trim()) {
-    prompt += `Additional requirements: ${customPrompt.trim()}. `;
+  if (palette.length > 0) {
+    prompt += `Keep the same color palette: ${palette.join(", ")}. `;
   }
 
-  // Quality directives for photorealistic results
-  prompt += `High-resolution, photorealistic, professional architectural photography, natural lighting, wide-angle view from eye level, beautifully styled and decorated, magazine-quality interior design.`;
+  if (options.moreBold) {
+    prompt += `Make bolder choices: more saturated accent colors, stronger contrast, statement furniture and dramatic lighting.`;
+  }
 
-  return prompt;
+  return prompt.trim();
 }
 
 /**
- * Generate alternative views with different angles/perspectives
+ * Provider for a new design
+ * Staging keeps the photographed room and lighting views relight the render,
+ * so both need a provider that works from its source image
  */
-async function generateAlternativeViews(
-  basePrompt: string,
+function resolveGenerationProvider(request: DesignGenerationRequest): ImageGenerationProvider {
+  if (request.mode === "stage") {
+    return getStagingProvider(request.provider);
+  }
+  return request.lightingScenarios ? getLightingProvider(request.provider) : getImageProvider(request.provider);
+}
+
+/**
+ * Construct optimized prompt for interior design generation
+ * Wording comes from the selected prompt template (see prompt.service).
+ * Templates that don't place {paletteLock} get the locked colors appended.
+ * Exclude/preserve lists follow in the provider's own phrasing.
+ */
+function constructDesignPrompt(
+  provider: ImageGenerationProvider,
+  template: ResolvedPromptTemplate,
   style: DesignStyle,
-  roomType: RoomType
-): Promise<string[]> {
-  const alternatives: string[] = [];
-
-  // Define alternative perspectives for interior design
-  const perspectives = [
-    {
-      suffix: "Camera angle: different corner of the room showing more spatial depth and layout",
-      quality: "standard" as const, // Use standard to save costs on alternatives
-    },
-    {
-      suffix: "Camera angle: close-up detail view highlighting textures, materials, and finishes",
-      quality: "standard" as const,
-    },
-  ];
+  roomType: RoomType,
+  request: DesignGenerationRequest
+): string {
+  const variables = buildPromptVariables(style, roomType, request.customPrompt, request.paletteLock);
+  let prompt = renderPromptTemplate(template.body, variables);
 
-  // Generate alternatives in parallel for speed
-  const promises = perspectives.map(async (perspective) => {
-    try {
-      const altPrompt = `${basePrompt} ${perspective.suffix}`;
-
-      const response = await openai.images.generate({
-        model: "dall-e-3",
-        prompt: altPrompt,
-        n: 1,
-        size: "1024x1024",
-        quality: perspective.quality,
-        response_format: "b64_json",
-      });
-
-      const imageBase64 = response.data[0].b64_json;
-      if (imageBase64) {
-        return `data:image/png;base64,${imageBase64}`;
-      }
-      return null;
-    } catch (error) {
-      console.error(`Failed to generate alternative view: ${error}`);
-      return null;
-    }
-  });
+  if (variables.paletteLock && !getTemplateVariables(template.body).includes("paletteLock")) {
+    prompt = `${prompt} Build the color scheme of walls, furniture and decor from this palette only: ${variables.paletteLock}.`;
+  }
 
-  const results = await Promise.all(promises);
+  return appendConstraints(prompt, provider, request);
+}
 
-  // Filter out failed generations
-  for (const result of results) {
-    if (result) {
-      alternatives.push(result);
-    }
+/**
+ * Append exclude/preserve constraints rendered by the provider
+ */
+function appendConstraints(prompt: string, provider: ImageGenerationProvider, constraints: PromptConstraints): string {
+  const rendered = provider.formatConstraints({ exclude: constraints.exclude, preserve: constraints.preserve });
+  return rendered ? `${prompt.trim()} ${rendered}` : prompt;
+}
+
+// Furniture guidance for each virtual staging density
+const STAGING_DENSITY_GUIDANCE: Record<StagingDensity, string> = {
+  minimal: "Furnish sparingly with only the essential pieces the room needs, leaving plenty of open floor space",
+  standard: "Furnish as a typical listing would: a complete main furniture grouping with a rug, lighting and a few accessories",
+  full: "Furnish completely like a lived-in show home: full furniture grouping, layered rugs and textiles, wall art, plants, lamps and styled accessories",
+};
+
+/**
+ * Construct prompt for virtual staging of an empty room
+ * Only movable furnishings are added; the architecture must stay as photographed
+ */
+function constructStagingPrompt(
+  provider: ImageGenerationProvider,
+  style: DesignStyle,
+  roomType: RoomType,
+  request: DesignGenerationRequest
+): string {
+  const variables = buildPromptVariables(style, roomType, request.customPrompt, request.paletteLock);
+  const density: StagingDensity = request.stagingDensity || "standard";
+
+  let prompt = `Virtually stage this empty ${variables.roomType} photograph with ${style.name} style furniture and decor. `;
+  prompt += `Keep the architecture exactly as photographed: do not move, resize, recolor or cover walls, windows, doors, floors, ceiling, trim or built-in fixtures, and keep the same camera angle, perspective and daylight. `;
+  prompt += `Only add movable furniture, rugs, lighting and decor. `;
+  prompt += `${STAGING_DENSITY_GUIDANCE[density]}. `;
+
+  if (variables.roomContext) {
+    prompt += `${variables.roomContext}. `;
   }
 
-  console.log(`✅ Generated ${alternatives.length} alternative views`);
+  if (variables.styleModifiers) {
+    prompt += `Key design elements: ${variables.styleModifiers}. `;
+  }
 
-  return alternatives;
+  if (variables.paletteLock) {
+    prompt += `Choose furniture and decor colors from this palette only: ${variables.paletteLock}. `;
+  }
+
+  if (variables.customPrompt) {
+    prompt += `Additional requirements: ${variables.customPrompt}. `;
+  }
+
+  prompt += `Photorealistic real estate listing photograph with furniture at true scale, grounded with realistic contact shadows.`;
+
+  return appendConstraints(prompt, provider, request);
 }
 
 /**
- * Add watermark to images for free tier
- * Note: This is a placeholder - in production, use sharp or jimp
- * to add an actual watermark overlay to the image
+ * One logical provider call with retries and circuit breaking
+ * Every attempt is recorded in the cost ledger
  */
-export function addWatermark(imageBase64: string): string {
-  // TODO: Implement actual watermarking with sharp or jimp
-  // For MVP, we just flag it in the database and could add client-side watermark
-  // In production:
-  // 1. Decode base64 to buffer
-  // 2. Use sharp to composite watermark image
-  // 3. Re-encode to base64
+function callProvider(
+  provider: ImageGenerationProvider,
+  costContext: CostContext,
+  call: { purpose: ProviderCallPurpose; quality: ImageQuality },
+  deadline: number,
+  run: (signal: AbortSignal) => Promise<ImageGenerationOutput>
+): Promise<ImageGenerationOutput> {
+  return callWithResilience(provider.id, deadline, (attempt, signal) =>
+    trackProviderCall(costContext, { ...call, provider, attempt }, () => run(signal))
+  );
+}
 
-  // For now, return as-is (watermark will be added client-side via CSS overlay)
-  return imageBase64;
+interface AlternativeViewSpec {
+  kind: DesignViewKind;
+  lightingScenario?: LightingScenario;
+  promptSuffix: string; // Appended to the design's prompt
+  quality: ImageQuality;
+  sourceLock: SourceImageLock; // What the view keeps from the image it's rendered from
 }
 
+// Prompt suffixes for lighting scenarios; the design itself must not change
+const LIGHTING_PROMPTS: Record<LightingScenario, string> = {
+  daylight: "Lighting: bright natural midday daylight through the windows with soft, even shadows",
+  "golden-hour": "Lighting: warm, low golden-hour sunlight raking through the windows with long soft shadows and an amber glow",
+  evening: "Lighting: early evening dusk with fading blue light outside the windows and warm interior lamps switched on",
+  night: "Lighting: nighttime with a dark sky outside the windows; the room is lit only by its lamps, pendants and accent lighting",
+};
+
+// Different angles/perspectives of the room
+const PERSPECTIVE_VIEWS: AlternativeViewSpec[] = [
+  {
+    kind: "angle",
+    promptSuffix: "Camera angle: different corner of the room showing more spatial depth and layout",
+    quality: "standard", // Use standard to save costs on alternatives
+    sourceLock: "none", // The camera moves, so the photo's viewpoint can't be kept
+  },
+  {
+    kind: "detail",
+    promptSuffix: "Camera angle: close-up detail view highlighting textures, materials, and finishes",
+    quality: "standard",
+    sourceLock: "none",
+  },
+];
+
 /**
- * Estimate DALL-E 3 cost for a generation
+ * The finished design relit for each scenario
+ * Rendered from the design image so furniture, layout and camera stay the same
  */
-export function estimateGenerationCost(quality: "hd" | "standard", alternativeViews: number = 0): number {
-  // DALL-E 3 pricing (as of 2024)
-  const HD_COST = 0.080; // $0.080 per image (1024x1024 HD)
-  const STANDARD_COST = 0.040; // $0.040 per image (1024x1024 standard)
+function lightingViews(scenarios: LightingScenario[]): AlternativeViewSpec[] {
+  return scenarios.map((scenario) => ({
+    kind: "lighting",
+    lightingScenario: scenario,
+    promptSuffix: LIGHTING_PROMPTS[scenario],
+    quality: "standard",
+    sourceLock: "design",
+  }));
+}
 
-  let cost = quality === "hd" ? HD_COST : STANDARD_COST;
+/**
+ * Generate labelled alternative views of a design
+ * Views that fail are skipped rather than failing the whole design
+ */
+async function generateAlternativeViews(
+  provider: ImageGenerationProvider,
+  basePrompt: string,
+  views: AlternativeViewSpec[],
+  sourceImage: string,
+  orientation: ImageOrientation,
+  costContext: CostContext,
+  deadline: number
+): Promise<AlternativeView[]> {
+  // Generate alternatives in parallel for speed
+  const promises = views.map(async (view): Promise<AlternativeView | null> => {
+    try {
+      const call = { purpose: "alternative" as const, quality: view.quality };
+      const result = await callProvider(provider, costContext, call, deadline, (signal) =>
+        provider.generate({
+          prompt: `${basePrompt} ${view.promptSuffix}`,
+          quality: view.quality,
+          sourceImage,
+          sourceLock: view.sourceLock,
+          orientation,
+          signal,
+        })
+      );
+      return { ...view, image: result.image };
+    } catch (error) {
+      console.error(`Failed to generate ${view.lightingScenario || view.kind} view: ${error}`);
+      return null;
+    }
+  });
 
-  // Alternative views use standard quality
-  cost += alternativeViews * STANDARD_COST;
+  // Filter out failed generations
+  const alternatives = (await Promise.all(promises)).filter((view): view is AlternativeView => view !== null);
+
+  console.log(`✅ Generated ${alternatives.length} alternative views`);
 
-  return cost;
+  return alternatives;
 }
@@ -0,0 +1,401 @@
+import { EventEmitter } from "events";
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import type { DesignGenerationRequest, PromptConstraints } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  generateRoomDesign,
+  editDesignRegion,
+  generateDesignVariation,
+  type GenerationProgress,
+  type GenerationResult,
+  type RegionEditRequest,
+  type VariationRequest,
+} from "./dalle.service";
+import { refundCredits } from "./credits.service";
+import { addWatermark, addDisclosureLabel } from "./watermark.service";
+import { getOutputTarget, resizeForDelivery } from "./resolution.service";
+import { extractPalette } from "./palette.service";
+import { storeImage, deleteUnreferencedImages } from "./blob.service";
+import { createImageVariants } from "./thumbnail.service";
+import { extractDesignTags } from "./tags.service";
+import { ProviderError } from "./providers";
+
+/**
+ * Background generation worker
+ * Designs are created in "generating" state by the route, then rendered here
+ * so the HTTP request can return immediately. Progress is kept in memory and
+ * broadcast to status/SSE subscribers.
+ * Each server holds a lease on the designs it has queued and renews it while
+ * it's running; when a server stops, another one fails and refunds its
+ * designs once their leases lapse. Only the lease holder can complete or fail
+ * a design, so a slow server can't overwrite (or refund again) a design that
+ * has been recovered elsewhere.
+ */
+
+interface BaseGenerationJob {
+  designId: number;
+  userId: number;
+  userTier: string; // Tier when the job was queued (recorded with provider costs)
+  creditCost: number;
+  hasWatermark: boolean; // Free tier output is watermarked before it is saved
+  isStaged: boolean; // Virtually staged output always carries the disclosure label
+  batchId?: number; // Batch items share a concurrency limit (see MAX_CONCURRENT_BATCH_JOBS)
+}
+
+export type GenerationJob =
+  | (BaseGenerationJob & { kind: "generate"; request: DesignGenerationRequest })
+  | (BaseGenerationJob & { kind: "edit"; request: RegionEditRequest })
+  | (BaseGenerationJob & { kind: "variation"; request: VariationRequest });
+
+const MAX_CONCURRENT_JOBS = parseInt(process.env.GENERATION_CONCURRENCY || "2");
+// Leaves a worker free for other users while a large batch is rendering
+const MAX_CONCURRENT_BATCH_JOBS = parseInt(
+  process.env.BATCH_GENERATION_CONCURRENCY || String(Math.max(1, MAX_CONCURRENT_JOBS - 1))
+);
+
+// Leases outlive a few missed renewals before another server takes over
+const LEASE_MS = 2 * 60 * 1000;
+const LEASE_RENEW_INTERVAL_MS = 30 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+
+// Names this server on the designs it holds
+const WORKER_ID = `${hostname()}-${process.pid}-${randomBytes(4).toString("hex")}`;
+
+const queue: GenerationJob[] = [];
+const progressByDesign = new Map<number, GenerationProgress>();
+const events = new EventEmitter();
+let runningJobs = 0;
+const runningJobsByBatch = new Map<number, number>();
+
+// Each SSE connection adds a listener, so lift the default cap of 10
+events.setMaxListeners(0);
+
+/**
+ * Queue a design for background generation
+ */
+export function enqueueGenerationJob(job: GenerationJob): void {
+  queue.push(job);
+  storage.renewGenerationLeases([job.designId], WORKER_ID, leaseExpiry()).catch((error) => {
+    console.error(`Failed to take the generation lease for design ${job.designId}:`, error);
+  });
+  publishProgress(job.designId, {
+    stage: "queued",
+    progress: 0,
+    message: queue.length > 1 ? `Waiting in queue (position ${queue.length})` : "Waiting to start",
+  });
+  drainQueue();
+}
+
+/**
+ * Latest in-memory progress for a design, if it has an active job
+ */
+export function getGenerationProgress(designId: number): GenerationProgress | undefined {
+  return progressByDesign.get(designId);
+}
+
+/**
+ * Subscribe to progress updates for a design
+ * Returns an unsubscribe function
+ */
+export function subscribeToGeneration(
+  designId: number,
+  listener: (progress: GenerationProgress) => void
+): () => void {
+  const eventName = `design:${designId}`;
+  events.on(eventName, listener);
+  return () => {
+    events.off(eventName, listener);
+  };
+}
+
+/**
+ * Fail and refund designs whose generation lease has lapsed
+ * Their server stopped before finishing them. Each design is claimed by a
+ * single conditional update, so only one server refunds it.
+ */
+export async function recoverInterruptedJobs(now: Date = new Date()): Promise<number> {
+  const interrupted = await storage.failExpiredGenerations(
+    now,
+    new Date(now.getTime() - LEASE_MS),
+    "Generation was interrupted by a server restart"
+  );
+
+  for (const design of interrupted) {
+    await refundCredits(design.userId, design.id, design.creditCost);
+    console.log(`♻️  Recovered interrupted generation for design ${design.id}`);
+  }
+
+  return interrupted.length;
+}
+
+/**
+ * Renew this server's generation leases and recover interrupted jobs now and then periodically
+ */
+export function scheduleJobRecovery(): void {
+  const renew = () => {
+    // Queued and running jobs both have progress until they finish
+    const designIds = Array.from(progressByDesign.keys());
+    storage.renewGenerationLeases(designIds, WORKER_ID, leaseExpiry()).catch((error) => {
+      console.error("Generation lease renewal failed:", error);
+    });
+  };
+  const recover = () =>
+    recoverInterruptedJobs().catch((error) => {
+      console.error("Interrupted job recovery failed:", error);
+    });
+
+  recover();
+  setInterval(renew, LEASE_RENEW_INTERVAL_MS).unref();
+  setInterval(recover, RECOVERY_INTERVAL_MS).unref();
+}
+
+function leaseExpiry(): Date {
+  return new Date(Date.now() + LEASE_MS);
+}
+
+function publishProgress(designId: number, progress: GenerationProgress): void {
+  if (progress.stage === "completed" || progress.stage === "failed") {
+    progressByDesign.delete(designId);
+  } else {
+    progressByDesign.set(designId, progress);
+  }
+  events.emit(`design:${designId}`, progress);
+}
+
+function drainQueue(): void {
+  while (runningJobs < MAX_CONCURRENT_JOBS) {
+    // Oldest job that isn't held back by its batch's limit
+    const index = queue.findIndex(
+      (job) => !job.batchId || (runningJobsByBatch.get(job.batchId) || 0) < MAX_CONCURRENT_BATCH_JOBS
+    );
+    if (index === -1) return;
+
+    const [job] = queue.splice(index, 1);
+    runningJobs++;
+    trackBatchJob(job, 1);
+
+    runJob(job).finally(() => {
+      runningJobs--;
+      trackBatchJob(job, -1);
+      drainQueue();
+    });
+  }
+}
+
+function trackBatchJob(job: GenerationJob, delta: number): void {
+  if (!job.batchId) return;
+
+  const running = (runningJobsByBatch.get(job.batchId) || 0) + delta;
+  if (running > 0) {
+    runningJobsByBatch.set(job.batchId, running);
+  } else {
+    runningJobsByBatch.delete(job.batchId);
+  }
+}
+
+async function runJob(job: GenerationJob): Promise<void> {
+  const { designId, userId } = job;
+  const context = { userId, designId, userTier: job.userTier };
+  const onProgress = (progress: GenerationProgress) => publishProgress(designId, progress);
+
+  // The lease taken at enqueue may not have landed, or may have lapsed while the job waited
+  const held = await storage.renewGenerationLeases([designId], WORKER_ID, leaseExpiry()).catch((error): number[] => {
+    console.error(`Failed to take the generation lease for design ${designId}:`, error);
+    return [];
+  });
+  if (!held.includes(designId)) {
+    // Another server failed and refunded it, or will once the lease lapses
+    console.warn(`⚠️  Skipping design ${designId}: this server doesn't hold its generation lease`);
+    publishProgress(designId, {
+      stage: "failed",
+      progress: 100,
+      message: "Generation was interrupted. Your credit has been refunded.",
+    });
+    return;
+  }
+
+  try {
+    let result: GenerationResult;
+    let settings: Record<string, any>;
+
+    switch (job.kind) {
+      case "generate":
+        result = await generateRoomDesign(job.request, context, onProgress);
+        settings = {
+          generateAlternatives: job.request.generateAlternatives,
+          ...(job.request.paletteLock && { paletteLock: job.request.paletteLock }),
+          ...(job.request.styleBlend && { styleBlend: job.request.styleBlend }),
+          ...(job.request.mode === "stage" && { mode: "stage", stagingDensity: job.request.stagingDensity }),
+          ...(job.request.lightingScenarios && { lightingScenarios: job.request.lightingScenarios }),
+          ...constraintSettings(job.request),
+        };
+        break;
+      case "edit":
+        result = await editDesignRegion(job.request, context, onProgress);
+        settings = { operation: "edit", instruction: job.request.instruction, ...constraintSettings(job.request) };
+        break;
+      case "variation":
+        result = await generateDesignVariation(job.request, context, onProgress);
+        settings = {
+          operation: "variation",
+          variant: job.request.variant,
+          ...job.request.options,
+          ...(job.request.lightingScenarios && { lightingScenarios: job.request.lightingScenarios }),
+          ...constraintSettings(job.request),
+        };
+        break;
+    }
+
+    publishProgress(designId, { stage: "finalizing", progress: 90, message: "Saving your design" });
+
+    // Crop to the chosen aspect ratio and scale to the tier's resolution
+    const output = getOutputTarget(job.userTier, job.request.aspectRatio);
+    let cleanImage = await resizeForDelivery(result.generatedImage, output);
+    const views = result.alternativeViews || [];
+    let viewImages = await Promise.all(views.map((view) => resizeForDelivery(view.image, output)));
+
+    // Palette comes from the clean render so the watermark doesn't skew it
+    const palette = await extractPalette(cleanImage).catch((error) => {
+      console.warn(`⚠️  Palette extraction failed for design ${designId}:`, error);
+      return null;
+    });
+
+    // The disclosure goes on the clean render too, so an upgrade can't remove it
+    if (job.isStaged) {
+      cleanImage = await addDisclosureLabel(cleanImage);
+      viewImages = await Promise.all(viewImages.map((image) => addDisclosureLabel(image)));
+    }
+
+    // Keep the clean render server-side so it can be unlocked after an upgrade
+    let generatedImage = cleanImage;
+    if (job.hasWatermark) {
+      generatedImage = await addWatermark(cleanImage);
+      viewImages = await Promise.all(viewImages.map((image) => addWatermark(image)));
+    }
+
+    // Images go to the blob store; rows keep their keys
+    const generatedImageKey = await storeImage(generatedImage);
+    const cleanImageKey = job.hasWatermark ? await storeImage(cleanImage) : null;
+    const viewImageKeys = await Promise.all(viewImages.map((image) => storeImage(image)));
+
+    // Library thumbnails of the delivered image; lists fall back to the full image without them
+    const generatedImageVariants = await createImageVariants(generatedImage).catch((error) => {
+      console.warn(`⚠️  Thumbnails failed for design ${designId}:`, error);
+      return null;
+    });
+
+    // Views are saved before the design completes so they're there when clients look
+    const savedViews = await storage.createDesignViews(
+      views.map((view, index) => ({
+        designId,
+        kind: view.kind,
+        lightingScenario: view.lightingScenario ?? null,
+        promptSuffix: view.promptSuffix,
+        quality: view.quality,
+        image: viewImageKeys[index],
+        position: index,
+      }))
+    );
+
+    const completed = await storage.finishGeneration(designId, WORKER_ID, {
+      status: "completed",
+      generatedImage: generatedImageKey,
+      generatedImageVariants,
+      unwatermarkedImage: cleanImageKey,
+      palette,
+      tags: extractDesignTags(palette, settings),
+      aiModel: result.metadata.model,
+      generationMetadata: {
+        generationTime: result.metadata.generationTime,
+        dallePrompt: result.metadata.dallePrompt,
+        provider: result.metadata.provider,
+        ...(result.metadata.promptTemplate && { promptTemplate: result.metadata.promptTemplate }),
+        output,
+        settings: {
+          quality: result.metadata.quality,
+          ...settings,
+        },
+      },
+    });
+
+    if (!completed) {
+      // The lease lapsed mid-render and another server has already failed and refunded the design
+      console.warn(`⚠️  Discarding render for design ${designId}: its generation lease was lost`);
+      await discardRender(
+        savedViews.map((view) => view.id),
+        [
+          generatedImageKey,
+          cleanImageKey,
+          ...viewImageKeys,
+          ...(generatedImageVariants || []).flatMap((variant) => [variant.webp, variant.jpeg]),
+        ]
+      );
+      publishProgress(designId, {
+        stage: "failed",
+        progress: 100,
+        message: "Generation was interrupted. Your credit has been refunded.",
+      });
+      return;
+    }
+
+    console.log(`✅ Design ${designId} generated successfully for user ${userId}`);
+
+    publishProgress(designId, { stage: "completed", progress: 100, message: "Design ready" });
+  } catch (error: any) {
+    console.error(`❌ Background generation failed for design ${designId}:`, error);
+
+    try {
+      // The failure is added to what the route recorded (e.g. a variant's settings), not swapped in for it
+      const design = await storage.getDesign(designId, { includeTrashed: true });
+      const metadata = design?.generationMetadata || {};
+
+      const failed = await storage.finishGeneration(designId, WORKER_ID, {
+        status: "failed",
+        generationMetadata: {
+          ...metadata,
+          error: error.message || "Unknown error",
+          ...(error instanceof ProviderError && { errorCode: error.code }),
+          ...(job.kind !== "generate" && { settings: { ...metadata.settings, operation: job.kind } }),
+        },
+      });
+
+      // Refund credits on failure, unless another server already failed (and refunded) the design
+      if (failed) {
+        await refundCredits(userId, designId, job.creditCost);
+      }
+    } catch (cleanupError) {
+      console.error(`Failed to clean up design ${designId}:`, cleanupError);
+    }
+
+    publishProgress(designId, {
+      stage: "failed",
+      progress: 100,
+      message: `${error instanceof ProviderError ? error.message : "Failed to generate design."} Your credit has been refunded.`,
+    });
+  }
+}
+
+/**
+ * Remove the views and images of a render whose design was failed elsewhere
+ */
+async function discardRender(viewIds: number[], imageRefs: Array<string | null>): Promise<void> {
+  try {
+    for (const id of viewIds) {
+      await storage.deleteDesignView(id);
+    }
+    await deleteUnreferencedImages(imageRefs.filter((ref): ref is string => !!ref));
+  } catch (error) {
+    console.error("Failed to discard a lost render:", error);
+  }
+}
+
+/**
+ * Exclude/preserve lists recorded in settings, so later revisions inherit them
+ */
+function constraintSettings({ exclude, preserve }: PromptConstraints): PromptConstraints {
+  return {
+    ...(exclude && exclude.length > 0 && { exclude }),
+    ...(preserve && preserve.length > 0 && { preserve }),
+  };
+}
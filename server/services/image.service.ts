@@ -0,0 +1,181 @@
+import sharp from "sharp";
+
+/**
+ * Image helpers shared by generation providers and post-processing
+ * Images travel through the app as base64 data URLs (see designs table)
+ */
+
+export interface DecodedImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Decode a base64 data URL (or bare base64 string) into a buffer
+ */
+export function parseDataUrl(dataUrl: string): DecodedImage {
+  const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(dataUrl);
+
+  if (match) {
+    return {
+      mimeType: match[1],
+      buffer: Buffer.from(match[2], "base64"),
+    };
+  }
+
+  // Bare base64 without a data URL prefix - assume PNG
+  return {
+    mimeType: "image/png",
+    buffer: Buffer.from(dataUrl, "base64"),
+  };
+}
+
+/**
+ * Encode a buffer as a base64 data URL
+ */
+export function toDataUrl(buffer: Buffer, mimeType: string = "image/png"): string {
+  return `data:${mimeType};base64,${buffer.toString("base64")}`;
+}
+
+/**
+ * Escape text for use inside SVG overlays
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * File extension for a MIME type (used when uploading to providers)
+ */
+export function extensionForMimeType(mimeType: string): string {
+  switch (mimeType) {
+    case "image/jpeg":
+      return "jpg";
+    case "image/webp":
+      return "webp";
+    default:
+      return "png";
+  }
+}
+
+export interface EditMask {
+  mask: string; // PNG data URL, transparent where the image should be regenerated
+  coverage: number; // Fraction of the image selected for editing (0-1)
+}
+
+// How far a brush mask's aspect ratio may be off the image's (canvas rounding)
+const MASK_ASPECT_TOLERANCE = 0.02;
+
+export class InvalidMaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMaskError";
+  }
+}
+
+/**
+ * Convert a client brush mask into a provider edit mask
+ * Brush masks are drawn as white strokes on a black or transparent canvas
+ * over the image; the result matches the image size and is transparent under
+ * the strokes. Throws InvalidMaskError for a mask that can't be read, doesn't
+ * fit the image or selects nothing.
+ */
+export async function brushMaskToEditMask(image: string, brushMask: string): Promise<EditMask> {
+  const source = parseDataUrl(image).buffer;
+  const { width, height } = await sharp(source).metadata();
+
+  if (!width || !height) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  const brush = parseDataUrl(brushMask).buffer;
+  const brushSize = await sharp(brush)
+    .metadata()
+    .catch(() => null);
+
+  if (!brushSize?.width || !brushSize?.height) {
+    throw new InvalidMaskError("The mask isn't a readable image");
+  }
+
+  if (Math.abs(brushSize.width / brushSize.height / (width / height) - 1) > MASK_ASPECT_TOLERANCE) {
+    throw new InvalidMaskError(
+      `The mask is ${brushSize.width}x${brushSize.height} but the image is ${width}x${height}; draw it over the whole image`
+    );
+  }
+
+  // 0 under painted strokes, 255 elsewhere
+  const alpha = await sharp(brush)
+    .resize(width, height, { fit: "fill" })
+    .flatten({ background: "#000000" })
+    .greyscale()
+    .extractChannel(0)
+    .threshold(128)
+    .negate()
+    .raw()
+    .toBuffer();
+
+  const selectedPixels = alpha.reduce((count, value) => (value === 0 ? count + 1 : count), 0);
+  if (selectedPixels === 0) {
+    throw new InvalidMaskError("The mask doesn't select any part of the image");
+  }
+
+  // Strip any existing alpha first - sharp applies removeAlpha() after joinChannel()
+  const rgb = await sharp(source).removeAlpha().raw().toBuffer();
+  const mask = await sharp(rgb, { raw: { width, height, channels: 3 } })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return {
+    mask: toDataUrl(mask),
+    coverage: selectedPixels / (width * height),
+  };
+}
+
+export interface DominantColor {
+  hex: string; // "#rrggbb"
+  coverage: number; // Fraction of the image (0-1)
+}
+
+/**
+ * Most common colors in an image, largest share first
+ * Pixels are bucketed on a coarse RGB grid and each bucket reports its mean color
+ */
+export async function extractDominantColors(image: string, count: number = 5): Promise<DominantColor[]> {
+  const pixels = await sharp(parseDataUrl(image).buffer)
+    .resize(64, 64, { fit: "inside" })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+
+  const buckets = new Map<number, { r: number; g: number; b: number; pixels: number }>();
+  const totalPixels = pixels.length / 3;
+
+  for (let i = 0; i < pixels.length; i += 3) {
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, pixels: 0 };
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    bucket.pixels++;
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.values())
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, count)
+    .map((bucket) => ({
+      hex: rgbToHex(bucket.r / bucket.pixels, bucket.g / bucket.pixels, bucket.b / bucket.pixels),
+      coverage: bucket.pixels / totalPixels,
+    }));
+}
+
+function rgbToHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+}
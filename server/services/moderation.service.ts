@@ -0,0 +1,101 @@
+import { storage } from "../storage";
+import { RulesPromptClassifier, type ModerationVerdict, type PromptClassifier } from "./moderation.rules";
+
+/**
+ * Moderation for user-supplied prompt text (customPrompt, edit instructions)
+ * Runs before any credit is deducted. The classifier is pluggable; the
+ * default is a local rules and keyword engine with no network calls
+ * (see moderation.rules).
+ */
+
+export * from "./moderation.rules";
+
+/**
+ * Error raised when a prompt is rejected
+ * Routes turn this into a 422 with a structured code
+ */
+export class PromptRejectedError extends Error {
+  code = "PROMPT_REJECTED";
+
+  constructor(public verdict: ModerationVerdict) {
+    super("Your prompt contains content we can't generate. Please rephrase it and try again.");
+    this.name = "PromptRejectedError";
+  }
+}
+
+const classifiers: Record<string, PromptClassifier> = {
+  rules: new RulesPromptClassifier(),
+};
+
+/**
+ * Register an additional classifier (e.g. a hosted moderation API)
+ * Select it with PROMPT_CLASSIFIER=<name>
+ */
+export function registerPromptClassifier(classifier: PromptClassifier): void {
+  classifiers[classifier.name] = classifier;
+}
+
+function getPromptClassifier(): PromptClassifier {
+  return classifiers[process.env.PROMPT_CLASSIFIER || "rules"] || classifiers.rules;
+}
+
+/**
+ * Moderate user prompt text before it reaches the model
+ * Rewrites and rejections are written to the moderation audit log.
+ * Throws PromptRejectedError for disallowed content; otherwise returns the
+ * sanitized text to use in place of the original.
+ */
+export async function moderatePrompt(
+  text: string | undefined,
+  context: { userId: number; source: string }
+): Promise<string | undefined> {
+  if (!text || !text.trim()) {
+    return undefined;
+  }
+
+  const verdict = await getPromptClassifier().classify(text);
+
+  if (verdict.action !== "allow") {
+    await storage.createModerationEvent({
+      userId: context.userId,
+      source: context.source,
+      action: verdict.action,
+      classifier: verdict.classifier,
+      categories: verdict.categories,
+      reasons: verdict.reasons,
+      originalText: text,
+      sanitizedText: verdict.action === "rewrite" ? verdict.text : null,
+    });
+
+    console.log(`🛡️  Prompt ${verdict.action} for user ${context.userId} (${verdict.categories.join(", ")})`);
+  }
+
+  if (verdict.action === "reject") {
+    throw new PromptRejectedError(verdict);
+  }
+
+  return verdict.text || undefined;
+}
+
+/**
+ * Moderate a list of short prompt items (exclude/preserve constraints)
+ * Items emptied by a rewrite are dropped; any rejection rejects the list.
+ */
+export async function moderatePromptList(
+  items: string[] | undefined,
+  context: { userId: number; source: string }
+): Promise<string[] | undefined> {
+  if (!items || items.length === 0) {
+    return undefined;
+  }
+
+  const moderated: string[] = [];
+  for (const item of items) {
+    const safeItem = await moderatePrompt(item, context);
+    if (safeItem && !moderated.includes(safeItem)) {
+      moderated.push(safeItem);
+    }
+  }
+
+  return moderated.length > 0 ? moderated : undefined;
+}
@@ -0,0 +1,118 @@
+import type { PaletteColor } from "@shared/schema";
+import { extractDominantColors } from "./image.service";
+
+/**
+ * Color palettes
+ * Dominant colors of a generated design are named against a small set of
+ * interior design colors. Each name belongs to a broad family ("blue",
+ * "beige") so My Designs can search by either.
+ */
+
+const NAMED_COLORS: Array<{ name: string; hex: string; family: string }> = [
+  { name: "White", hex: "#f8f8f6", family: "white" },
+  { name: "Ivory", hex: "#f4efe1", family: "white" },
+  { name: "Cream", hex: "#ece3cc", family: "beige" },
+  { name: "Beige", hex: "#d8c8a8", family: "beige" },
+  { name: "Sand", hex: "#c7b08b", family: "beige" },
+  { name: "Taupe", hex: "#8f8374", family: "beige" },
+  { name: "Light Gray", hex: "#cfcfcd", family: "gray" },
+  { name: "Gray", hex: "#9a9a98", family: "gray" },
+  { name: "Charcoal", hex: "#444648", family: "gray" },
+  { name: "Black", hex: "#1c1c1c", family: "black" },
+  { name: "Walnut", hex: "#5c4033", family: "brown" },
+  { name: "Oak", hex: "#b08a5a", family: "brown" },
+  { name: "Chocolate", hex: "#3f2a1e", family: "brown" },
+  { name: "Caramel", hex: "#a86b32", family: "brown" },
+  { name: "Terracotta", hex: "#c0674a", family: "orange" },
+  { name: "Rust", hex: "#a3472a", family: "orange" },
+  { name: "Peach", hex: "#f0b48f", family: "orange" },
+  { name: "Mustard", hex: "#d0a32e", family: "yellow" },
+  { name: "Butter", hex: "#f2dc8a", family: "yellow" },
+  { name: "Burgundy", hex: "#6d1f2b", family: "red" },
+  { name: "Brick Red", hex: "#a23b32", family: "red" },
+  { name: "Blush", hex: "#e6b8b4", family: "pink" },
+  { name: "Dusty Rose", hex: "#c08a8a", family: "pink" },
+  { name: "Plum", hex: "#5e3553", family: "purple" },
+  { name: "Lavender", hex: "#b9a9d0", family: "purple" },
+  { name: "Navy", hex: "#1f2a44", family: "blue" },
+  { name: "Denim", hex: "#4a6283", family: "blue" },
+  { name: "Sky Blue", hex: "#9cc3de", family: "blue" },
+  { name: "Teal", hex: "#2c6e6a", family: "blue" },
+  { name: "Sage", hex: "#9caf88", family: "green" },
+  { name: "Olive", hex: "#6b6b3a", family: "green" },
+  { name: "Forest Green", hex: "#2f4a34", family: "green" },
+  { name: "Emerald", hex: "#2e8b57", family: "green" },
+  { name: "Brass", hex: "#b5a042", family: "yellow" },
+];
+
+const NAMED_RGB = NAMED_COLORS.map((color) => ({ ...color, rgb: hexToRgb(color.hex) }));
+
+/**
+ * Dominant colors of an image with names and coverage
+ */
+export async function extractPalette(image: string, count: number = 5): Promise<PaletteColor[]> {
+  const colors = await extractDominantColors(image, count);
+
+  return colors.map((color) => {
+    const named = nearestNamedColor(color.hex);
+    return {
+      hex: color.hex,
+      name: named.name,
+      family: named.family,
+      coverage: Math.round(color.coverage * 1000) / 10, // Percent, one decimal place
+    };
+  });
+}
+
+/**
+ * Closest named color to a hex value
+ */
+export function nearestNamedColor(hex: string): { name: string; family: string } {
+  const rgb = hexToRgb(hex);
+  let best = NAMED_RGB[0];
+  let bestDistance = Infinity;
+
+  for (const candidate of NAMED_RGB) {
+    const distance = colorDistance(rgb, candidate.rgb);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return { name: best.name, family: best.family };
+}
+
+/**
+ * Describe locked colors for a prompt, e.g. "Navy (#1f2a44), Sand (#c7b08b)"
+ */
+export function describePalette(hexColors: string[]): string {
+  return hexColors.map((hex) => `${nearestNamedColor(hex).name} (${hex.toLowerCase()})`).join(", ");
+}
+
+/**
+ * Turn a search term into the palette name or family to match
+ * Hex values match the family of their nearest named color
+ */
+export function normalizeColorQuery(query: string): string {
+  const trimmed = query.trim();
+  return /^#?[0-9a-f]{6}$/i.test(trimmed)
+    ? nearestNamedColor(trimmed.startsWith("#") ? trimmed : `#${trimmed}`).family
+    : trimmed.toLowerCase();
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * "Redmean" weighted RGB distance - cheap and close enough to perceptual for naming
+ */
+function colorDistance(a: [number, number, number], b: [number, number, number]): number {
+  const meanRed = (a[0] + b[0]) / 2;
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  return (2 + meanRed / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanRed) / 256) * db * db;
+}
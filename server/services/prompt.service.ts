@@ -0,0 +1,143 @@
+import type { DesignStyle, RoomType, PromptTemplate } from "@shared/schema";
+import { storage } from "../storage";
+import { describePalette } from "./palette.service";
+
+/**
+ * Prompt templates
+ * Prompt wording lives in the prompt_templates table so it can change without
+ * a deploy. Templates use {variables}; a [[ ... ]] section is dropped when any
+ * variable inside it is empty.
+ */
+
+export const PROMPT_VARIABLES = [
+  "roomType",
+  "roomTypeName",
+  "roomContext",
+  "styleName",
+  "styleDescription",
+  "styleModifiers",
+  "customPrompt",
+  "paletteLock",
+] as const;
+
+export interface PromptVariables {
+  roomType: string; // Lowercase room type name, e.g. "living room"
+  roomTypeName: string;
+  roomContext: string;
+  styleName: string;
+  styleDescription: string;
+  styleModifiers: string; // Comma-separated style prompt modifiers
+  customPrompt: string;
+  paletteLock: string; // Locked colors with names, e.g. "Navy (#1f2a44), Sand (#c7b08b)"
+}
+
+export interface ResolvedPromptTemplate {
+  id: number | null; // null for the built-in fallback
+  name: string;
+  version: number;
+  body: string;
+}
+
+/**
+ * Built-in template used when the table has no active template in scope
+ * Matches the original hard-coded prompt skeleton
+ */
+export const DEFAULT_PROMPT_TEMPLATE: ResolvedPromptTemplate = {
+  id: null,
+  name: "default",
+  version: 1,
+  body:
+    "Professional interior design photograph of a {roomType} in {styleName} style. " +
+    "[[{roomContext}. ]]" +
+    "[[Key design elements: {styleModifiers}. ]]" +
+    "[[Additional requirements: {customPrompt}. ]]" +
+    "High-resolution, photorealistic, professional architectural photography, natural lighting, wide-angle view from eye level, beautifully styled and decorated, magazine-quality interior design.",
+};
+
+/**
+ * Pick the template for a style/room type combination
+ * The most specific scope with active templates wins (style + room type,
+ * then style, then room type, then global); within that scope templates are
+ * assigned at random in proportion to their weight
+ */
+export async function selectPromptTemplate(
+  style: DesignStyle,
+  roomType: RoomType
+): Promise<ResolvedPromptTemplate> {
+  const templates = await storage.getActivePromptTemplates();
+
+  const scopes: Array<(template: PromptTemplate) => boolean> = [
+    (t) => t.styleId === style.id && t.roomTypeId === roomType.id,
+    (t) => t.styleId === style.id && t.roomTypeId === null,
+    (t) => t.styleId === null && t.roomTypeId === roomType.id,
+    (t) => t.styleId === null && t.roomTypeId === null,
+  ];
+
+  for (const inScope of scopes) {
+    const candidates = templates.filter((t) => inScope(t) && t.weight > 0);
+    if (candidates.length > 0) {
+      const chosen = pickWeighted(candidates);
+      return { id: chosen.id, name: chosen.name, version: chosen.version, body: chosen.body };
+    }
+  }
+
+  return DEFAULT_PROMPT_TEMPLATE;
+}
+
+/**
+ * Variables available to templates for a generation
+ */
+export function buildPromptVariables(
+  style: DesignStyle,
+  roomType: RoomType,
+  customPrompt?: string,
+  paletteLock: string[] = []
+): PromptVariables {
+  return {
+    roomType: roomType.name.toLowerCase(),
+    roomTypeName: roomType.name,
+    roomContext: roomType.promptContext?.trim().replace(/\.$/, "") || "",
+    styleName: style.name,
+    styleDescription: style.description,
+    styleModifiers: (style.promptModifiers || []).join(", "),
+    customPrompt: customPrompt?.trim() || "",
+    paletteLock: describePalette(paletteLock),
+  };
+}
+
+/**
+ * Substitute variables into a template body
+ * Unknown variables render as empty strings
+ */
+export function renderPromptTemplate(body: string, variables: Partial<PromptVariables>): string {
+  const values = variables as Record<string, string | undefined>;
+
+  const withSections = body.replace(/\[\[([\s\S]*?)\]\]/g, (_, section: string) => {
+    const names = Array.from(section.matchAll(/\{(\w+)\}/g), (match) => match[1]);
+    return names.every((name) => values[name]) ? section : "";
+  });
+
+  return withSections
+    .replace(/\{(\w+)\}/g, (_, name: string) => values[name] || "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * List the variables a template body references
+ */
+export function getTemplateVariables(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(/\{(\w+)\}/g), (match) => match[1])));
+}
+
+function pickWeighted(templates: PromptTemplate[]): PromptTemplate {
+  const totalWeight = templates.reduce((sum, t) => sum + t.weight, 0);
+  let roll = Math.random() * totalWeight;
+
+  for (const template of templates) {
+    roll -= template.weight;
+    if (roll < 0) return template;
+  }
+
+  return templates[templates.length - 1];
+}
@@ -0,0 +1,117 @@
+import type { ImageProviderId } from "./types";
+
+export type ProviderErrorKind =
+  | "rate-limit"
+  | "content-policy"
+  | "timeout"
+  | "upstream" // 5xx or connection failure
+  | "circuit-open"
+  | "invalid-request"
+  | "unknown";
+
+// Safe to show to users; the original error is kept on `cause` for logs
+const USER_MESSAGES: Record<ProviderErrorKind, string> = {
+  "rate-limit": "The image service is handling too many requests right now.",
+  "content-policy": "The image service declined this request under its content policy. Try rephrasing your prompt.",
+  timeout: "The image service took too long to respond.",
+  upstream: "The image service is temporarily unavailable.",
+  "circuit-open": "The image service is busy right now. Please try again in a minute.",
+  "invalid-request": "The image service rejected the request.",
+  unknown: "The image service failed unexpectedly.",
+};
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ["rate-limit", "timeout", "upstream"];
+
+/**
+ * The requested provider can't be used for this request (the caller's mistake, not the provider's)
+ */
+export class UnsupportedProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedProviderError";
+  }
+}
+
+/**
+ * Classified failure from an image provider call
+ */
+export class ProviderError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // From Retry-After headers on rate limits
+
+  constructor(
+    public readonly kind: ProviderErrorKind,
+    public readonly providerId: ImageProviderId,
+    options: { cause?: unknown; status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(USER_MESSAGES[kind], { cause: options.cause });
+    this.name = "ProviderError";
+    this.retryable = RETRYABLE_KINDS.includes(kind);
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** Stable code for API responses, e.g. "PROVIDER_RATE_LIMIT" */
+  get code(): string {
+    return `PROVIDER_${this.kind.toUpperCase().replace(/-/g, "_")}`;
+  }
+}
+
+/**
+ * Map an error thrown by a provider SDK onto a ProviderError
+ * Works from status codes and error names so it isn't tied to one SDK
+ */
+export function classifyProviderError(error: unknown, providerId: ImageProviderId): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const err = (error || {}) as {
+    status?: number;
+    code?: string | null;
+    name?: string;
+    message?: string;
+    headers?: Record<string, string | null | undefined>;
+  };
+  const status = typeof err.status === "number" ? err.status : undefined;
+  const message = (err.message || "").toLowerCase();
+  const options = { cause: error, status };
+
+  if (status === 429) {
+    return new ProviderError("rate-limit", providerId, { ...options, retryAfterMs: parseRetryAfter(err.headers) });
+  }
+
+  if (
+    err.code === "content_policy_violation" ||
+    err.code === "moderation_blocked" ||
+    message.includes("safety system") ||
+    message.includes("content policy")
+  ) {
+    return new ProviderError("content-policy", providerId, options);
+  }
+
+  if (err.name === "AbortError" || /timeout|timed out/i.test(err.name || "") || message.includes("timed out")) {
+    return new ProviderError("timeout", providerId, options);
+  }
+
+  if ((status && status >= 500) || err.name === "APIConnectionError" || err.code === "ECONNRESET") {
+    return new ProviderError("upstream", providerId, options);
+  }
+
+  if (status && status >= 400) {
+    return new ProviderError("invalid-request", providerId, options);
+  }
+
+  return new ProviderError("unknown", providerId, options);
+}
+
+function parseRetryAfter(headers?: Record<string, string | null | undefined>): number | undefined {
+  const retryAfterMs = Number(headers?.["retry-after-ms"]);
+  if (retryAfterMs > 0) return retryAfterMs;
+
+  const retryAfter = Number(headers?.["retry-after"]);
+  if (retryAfter > 0) return retryAfter * 1000;
+
+  return undefined;
+}
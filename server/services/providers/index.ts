@@ -0,0 +1,90 @@
+import { OpenAITextToImageProvider, OpenAIPhotoConditionedProvider } from "./openai.provider";
+import { MockImageProvider } from "./mock.provider";
+import type { ImageGenerationProvider, ImageProviderId } from "./types";
+import { UnsupportedProviderError } from "./errors";
+
+export * from "./types";
+export * from "./errors";
+export { callWithResilience, createDeadline, getProviderAvailability } from "./resilience";
+
+const providers: Record<ImageProviderId, ImageGenerationProvider> = {
+  "text-to-image": new OpenAITextToImageProvider(),
+  "photo-conditioned": new OpenAIPhotoConditionedProvider(),
+  mock: new MockImageProvider(),
+};
+
+/**
+ * Default provider when a request doesn't name one
+ * IMAGE_PROVIDER=mock lets local development and tests run offline
+ */
+function getDefaultProviderId(): ImageProviderId {
+  const configured = process.env.IMAGE_PROVIDER as ImageProviderId | undefined;
+  if (configured && configured in providers) {
+    return configured;
+  }
+  return "photo-conditioned";
+}
+
+/**
+ * Resolve the provider for a generation request
+ * The getters throw UnsupportedProviderError for a provider that can't serve the request
+ */
+export function getImageProvider(id?: ImageProviderId): ImageGenerationProvider {
+  const providerId = id || getDefaultProviderId();
+
+  if (providerId === "mock" && process.env.NODE_ENV === "production") {
+    throw new UnsupportedProviderError("The mock image provider is not available in production");
+  }
+
+  return providers[providerId];
+}
+
+/**
+ * Resolve a provider that supports masked region edits
+ * Falls back to the photo-conditioned provider when the default can't inpaint
+ */
+export function getEditProvider(id?: ImageProviderId): ImageGenerationProvider {
+  const provider = getImageProvider(id);
+
+  if (provider.editRegion) {
+    return provider;
+  }
+
+  if (id) {
+    throw new UnsupportedProviderError(`The ${id} provider does not support region editing`);
+  }
+
+  return providers["photo-conditioned"];
+}
+
+/**
+ * Resolve a provider for virtual staging
+ * Staging must keep the photographed room, so only providers conditioned on
+ * the photo qualify; falls back to the photo-conditioned provider by default
+ */
+export function getStagingProvider(id?: ImageProviderId): ImageGenerationProvider {
+  return getSourceImageProvider(id, "virtual staging");
+}
+
+/**
+ * Resolve a provider for requests with lighting scenarios
+ * Lighting views relight the rendered design, so like staging they need a
+ * provider conditioned on its source image
+ */
+export function getLightingProvider(id?: ImageProviderId): ImageGenerationProvider {
+  return getSourceImageProvider(id, "lighting scenarios");
+}
+
+function getSourceImageProvider(id: ImageProviderId | undefined, feature: string): ImageGenerationProvider {
+  const provider = getImageProvider(id);
+
+  if (provider.usesSourceImage) {
+    return provider;
+  }
+
+  if (id) {
+    throw new UnsupportedProviderError(`The ${id} provider does not support ${feature}. Choose a photo-conditioned provider.`);
+  }
+
+  return providers["photo-conditioned"];
+}
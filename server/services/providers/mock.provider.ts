@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { parseDataUrl, toDataUrl } from "../image.service";
+import type {
+  ImageGenerationProvider,
+  ImageGenerationInput,
+  ImageEditInput,
+  ImageGenerationOutput,
+  ImageOrientation,
+  ImageProviderId,
+  PromptConstraints,
+} from "./types";
+
+// Same native sizes as gpt-image-1
+const MOCK_IMAGE_SIZES: Record<ImageOrientation, { width: number; height: number }> = {
+  square: { width: 1024, height: 1024 },
+  landscape: { width: 1536, height: 1024 },
+  portrait: { width: 1024, height: 1536 },
+};
+
+/**
+ * Deterministic local provider for offline development and tests
+ * The same prompt and source photo always produce the same image,
+ * and no network calls are made
+ */
+export class MockImageProvider implements ImageGenerationProvider {
+  id: ImageProviderId = "mock";
+  model = "mock";
+  usesSourceImage = true;
+
+  async generate(input: ImageGenerationInput): Promise<ImageGenerationOutput> {
+    const tint = mockColor(input.prompt, input.quality, input.sourceImage || "");
+    const { width, height } = MOCK_IMAGE_SIZES[input.orientation || "square"];
+
+    // Tint the source photo so the output keeps its layout, or render a flat swatch
+    const base = input.sourceImage
+      ? sharp(parseDataUrl(input.sourceImage).buffer)
+          .rotate()
+          .resize(width, height, { fit: "cover" })
+          .tint(tint)
+      : sharp({
+          create: {
+            width,
+            height,
+            channels: 3,
+            background: tint,
+          },
+        });
+
+    const buffer = await base.png().toBuffer();
+
+    return {
+      image: toDataUrl(buffer),
+      model: this.model,
+      quality: input.quality,
+      size: `${width}x${height}`,
+    };
+  }
+
+  // Bracketed so the lists are easy to spot in the recorded prompt
+  formatConstraints({ exclude = [], preserve = [] }: PromptConstraints): string {
+    const parts: string[] = [];
+    if (preserve.length > 0) parts.push(`[preserve: ${preserve.join("; ")}]`);
+    if (exclude.length > 0) parts.push(`[exclude: ${exclude.join("; ")}]`);
+    return parts.join(" ");
+  }
+
+  async editRegion(input: ImageEditInput): Promise<ImageGenerationOutput> {
+    const source = parseDataUrl(input.image).buffer;
+    const { width, height } = await sharp(source).metadata();
+
+    if (!width || !height) {
+      throw new Error("Could not read image dimensions");
+    }
+
+    // Paint a flat swatch only where the mask is transparent
+    const editAlpha = await sharp(parseDataUrl(input.mask).buffer)
+      .resize(width, height, { fit: "fill" })
+      .ensureAlpha()
+      .extractChannel(3)
+      .negate()
+      .raw()
+      .toBuffer();
+
+    const patch = await sharp({
+      create: {
+        width,
+        height,
+        channels: 3,
+        background: mockColor(input.prompt, input.quality, input.image),
+      },
+    })
+      .joinChannel(editAlpha, { raw: { width, height, channels: 1 } })
+      .png()
+      .toBuffer();
+
+    const buffer = await sharp(source)
+      .composite([{ input: patch }])
+      .png()
+      .toBuffer();
+
+    return {
+      image: toDataUrl(buffer),
+      model: this.model,
+      quality: input.quality,
+      size: `${width}x${height}`,
+    };
+  }
+}
+
+/**
+ * Stable hex color derived from the inputs
+ */
+function mockColor(...parts: string[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(part);
+  }
+  return `#${hash.digest("hex").substring(0, 6)}`;
+}
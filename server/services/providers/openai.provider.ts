@@ -0,0 +1,176 @@
+import OpenAI, { toFile } from "openai";
+import { parseDataUrl, toDataUrl, extensionForMimeType } from "../image.service";
+import type {
+  ImageGenerationProvider,
+  ImageGenerationInput,
+  ImageEditInput,
+  ImageGenerationOutput,
+  ImageOrientation,
+  ImageProviderId,
+  PromptConstraints,
+  SourceImageLock,
+} from "./types";
+
+if (!process.env.OPENAI_API_KEY) {
+  console.warn("⚠️  OPENAI_API_KEY not set. AI features will not work.");
+}
+
+// Native output sizes per model
+const DALLE_SIZES = {
+  square: "1024x1024",
+  landscape: "1792x1024",
+  portrait: "1024x1792",
+} as const satisfies Record<ImageOrientation, string>;
+
+const GPT_IMAGE_SIZES = {
+  square: "1024x1024",
+  landscape: "1536x1024",
+  portrait: "1024x1536",
+} as const satisfies Record<ImageOrientation, string>;
+
+// OpenAI client is created on first use so the mock provider works without a key
+let openaiClient: OpenAI | undefined;
+
+function getOpenAI(): OpenAI {
+  if (!openaiClient) {
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openaiClient;
+}
+
+/**
+ * Text-to-image provider using DALL-E 3
+ * Renders purely from the prompt - the uploaded photo is not sent
+ */
+export class OpenAITextToImageProvider implements ImageGenerationProvider {
+  id: ImageProviderId = "text-to-image";
+  model = "dall-e-3";
+  usesSourceImage = false;
+
+  async generate(input: ImageGenerationInput): Promise<ImageGenerationOutput> {
+    const size = DALLE_SIZES[input.orientation || "square"];
+    const response = await getOpenAI().images.generate({
+      model: this.model,
+      prompt: input.prompt,
+      n: 1,
+      size,
+      quality: input.quality,
+      response_format: "b64_json",
+    }, { signal: input.signal });
+
+    const imageBase64 = response.data?.[0]?.b64_json;
+    if (!imageBase64) {
+      throw new Error("DALL-E 3 returned no image data");
+    }
+
+    return {
+      image: `data:image/png;base64,${imageBase64}`,
+      model: this.model,
+      quality: input.quality,
+      size,
+    };
+  }
+
+  // No photo to keep elements from, so "preserve" items are asked for outright;
+  // DALL-E 3 tends to draw whatever is named, so exclusions are stated as absolute
+  formatConstraints({ exclude = [], preserve = [] }: PromptConstraints): string {
+    const parts: string[] = [];
+    if (preserve.length > 0) parts.push(`The room must include: ${preserve.join("; ")}.`);
+    if (exclude.length > 0) parts.push(`Leave these out entirely - none may appear anywhere in the image: ${exclude.join("; ")}.`);
+    return parts.join(" ");
+  }
+}
+
+/**
+ * Photo-conditioned provider using gpt-image-1 edits
+ * Sends the user's room photo so walls, windows and camera angle carry over
+ */
+export class OpenAIPhotoConditionedProvider implements ImageGenerationProvider {
+  id: ImageProviderId = "photo-conditioned";
+  model = "gpt-image-1";
+  usesSourceImage = true;
+
+  async generate(input: ImageGenerationInput): Promise<ImageGenerationOutput> {
+    if (!input.sourceImage) {
+      throw new Error("Photo-conditioned generation requires a source image");
+    }
+
+    const size = GPT_IMAGE_SIZES[input.orientation || "square"];
+    const { buffer, mimeType } = parseDataUrl(input.sourceImage);
+    const image = await toFile(buffer, `room.${extensionForMimeType(mimeType)}`, { type: mimeType });
+    const lock = SOURCE_LOCK_INSTRUCTIONS[input.sourceLock || "geometry"];
+
+    const response = await getOpenAI().images.edit({
+      model: this.model,
+      image,
+      prompt: lock ? `${lock} ${input.prompt}` : input.prompt,
+      n: 1,
+      size,
+      quality: input.quality === "hd" ? "high" : "medium",
+    }, { signal: input.signal });
+
+    const imageBase64 = response.data?.[0]?.b64_json;
+    if (!imageBase64) {
+      throw new Error("gpt-image-1 returned no image data");
+    }
+
+    return {
+      image: toDataUrl(Buffer.from(imageBase64, "base64")),
+      model: this.model,
+      quality: input.quality,
+      size,
+    };
+  }
+
+  formatConstraints({ exclude = [], preserve = [] }: PromptConstraints): string {
+    const parts: string[] = [];
+    if (preserve.length > 0) parts.push(`Keep these elements of the photo exactly as they are, with the same position, material and color: ${preserve.join("; ")}.`);
+    if (exclude.length > 0) parts.push(`Do not add any of the following, and remove them if they are in the photo: ${exclude.join("; ")}.`);
+    return parts.join(" ");
+  }
+
+  async editRegion(input: ImageEditInput): Promise<ImageGenerationOutput> {
+    const source = parseDataUrl(input.image);
+    const image = await toFile(source.buffer, `design.${extensionForMimeType(source.mimeType)}`, {
+      type: source.mimeType,
+    });
+    const mask = await toFile(parseDataUrl(input.mask).buffer, "mask.png", { type: "image/png" });
+    const size = GPT_IMAGE_SIZES[input.orientation || "square"];
+
+    const response = await getOpenAI().images.edit({
+      model: this.model,
+      image,
+      mask,
+      prompt: input.prompt,
+      n: 1,
+      size,
+      quality: input.quality === "hd" ? "high" : "medium",
+    }, { signal: input.signal });
+
+    const imageBase64 = response.data?.[0]?.b64_json;
+    if (!imageBase64) {
+      throw new Error("gpt-image-1 returned no image data");
+    }
+
+    return {
+      image: toDataUrl(Buffer.from(imageBase64, "base64")),
+      model: this.model,
+      quality: input.quality,
+      size,
+    };
+  }
+}
+
+/**
+ * Prefixes that keep what the render must carry over from the source image
+ * The geometry lock keeps the room's structure intact when restyling a photo
+ */
+const SOURCE_LOCK_INSTRUCTIONS: Record<SourceImageLock, string> = {
+  geometry:
+    "Redesign the interior of the room in this photo. Keep the room's architecture exactly as it is: same walls, ceiling, windows, doors, floor plan, proportions and camera viewpoint. Only change furniture, finishes, colors, lighting fixtures and decor.",
+  design:
+    "Show this exact same room design under different lighting. Keep the architecture, furniture, decor, materials, colors, layout and camera viewpoint exactly as they are. Only change the light.",
+  none: "",
+};
@@ -0,0 +1,179 @@
+import { ProviderError, classifyProviderError } from "./errors";
+import type { ImageProviderId } from "./types";
+
+/**
+ * Retries, deadlines and circuit breaking for provider calls
+ * Retryable failures (rate limits, timeouts, 5xx) back off exponentially with
+ * full jitter until the request's deadline. Repeated failures open the
+ * provider's circuit so new requests fail fast instead of queueing behind it.
+ */
+
+const MAX_ATTEMPTS = parseInt(process.env.PROVIDER_MAX_ATTEMPTS || "3");
+const BASE_DELAY_MS = parseInt(process.env.PROVIDER_RETRY_BASE_MS || "1000");
+const MAX_DELAY_MS = 20_000;
+const DEADLINE_MS = parseInt(process.env.GENERATION_DEADLINE_MS || "180000");
+const FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || "5");
+const COOLDOWN_MS = parseInt(process.env.CIRCUIT_COOLDOWN_MS || "30000");
+
+type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Per-provider circuit breaker
+ * Opens after FAILURE_THRESHOLD consecutive retryable failures; after
+ * COOLDOWN_MS a single trial call is let through (half-open)
+ */
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly providerId: ImageProviderId) {}
+
+  /** Milliseconds until the circuit will accept a trial call (0 = available) */
+  retryAfterMs(): number {
+    if (this.state === "open") {
+      return Math.max(0, this.openedAt + COOLDOWN_MS - Date.now());
+    }
+    return this.state === "half-open" && this.trialInFlight ? COOLDOWN_MS : 0;
+  }
+
+  acquire(): void {
+    if (this.state === "open" && Date.now() - this.openedAt >= COOLDOWN_MS) {
+      this.state = "half-open";
+      this.trialInFlight = false;
+    }
+
+    if (this.state === "open" || (this.state === "half-open" && this.trialInFlight)) {
+      throw new ProviderError("circuit-open", this.providerId, { retryAfterMs: this.retryAfterMs() });
+    }
+
+    if (this.state === "half-open") {
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      console.log(`🟢 Circuit closed for ${this.providerId}`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: ProviderError): void {
+    // Only provider health problems count - a refused prompt says nothing about uptime
+    if (!error.retryable) {
+      if (this.state === "half-open") this.trialInFlight = false;
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    if (this.state === "half-open" || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.state = "open";
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+      console.warn(`🔴 Circuit opened for ${this.providerId} after ${this.consecutiveFailures} failure(s)`);
+    }
+  }
+}
+
+const breakers = new Map<ImageProviderId, CircuitBreaker>();
+
+function getBreaker(providerId: ImageProviderId): CircuitBreaker {
+  let breaker = breakers.get(providerId);
+  if (!breaker) {
+    breaker = new CircuitBreaker(providerId);
+    breakers.set(providerId, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Whether a provider is accepting calls; check before charging credits
+ * Returns the wait in milliseconds when its circuit is open
+ */
+export function getProviderAvailability(providerId: ImageProviderId): { available: boolean; retryAfterMs: number } {
+  const retryAfterMs = getBreaker(providerId).retryAfterMs();
+  return { available: retryAfterMs === 0, retryAfterMs };
+}
+
+/**
+ * Absolute deadline for a request that starts now
+ */
+export function createDeadline(): number {
+  return Date.now() + DEADLINE_MS;
+}
+
+/**
+ * Call a provider with retries, a deadline and circuit breaking
+ * `run` receives the 1-based attempt number and an AbortSignal that fires at
+ * the deadline. Failures are thrown as classified ProviderErrors.
+ */
+export async function callWithResilience<T>(
+  providerId: ImageProviderId,
+  deadline: number,
+  run: (attempt: number, signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const breaker = getBreaker(providerId);
+
+  for (let attempt = 1; ; attempt++) {
+    breaker.acquire();
+
+    let error: ProviderError;
+    try {
+      const result = await runWithDeadline(deadline, (signal) => run(attempt, signal));
+      breaker.recordSuccess();
+      return result;
+    } catch (caught) {
+      error = classifyProviderError(caught, providerId);
+      breaker.recordFailure(error);
+    }
+
+    const delay = backoffDelay(attempt, error.retryAfterMs);
+    const timeLeft = deadline - Date.now();
+    const circuitOpen = breaker.retryAfterMs() > 0;
+
+    if (!error.retryable || circuitOpen || attempt >= MAX_ATTEMPTS || delay >= timeLeft) {
+      throw error;
+    }
+
+    console.warn(`🔁 ${providerId} ${error.kind} on attempt ${attempt}, retrying in ${delay}ms`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Exponential backoff with full jitter, never sooner than Retry-After
+ */
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.max(Math.round(Math.random() * ceiling), retryAfterMs || 0);
+}
+
+/**
+ * Reject with a timeout once the deadline passes, aborting the call if the
+ * provider honours the signal
+ */
+async function runWithDeadline<T>(deadline: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timeLeft = deadline - Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      const error = new Error("Provider call timed out");
+      error.name = "TimeoutError";
+      reject(error);
+    }, Math.max(0, timeLeft));
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,57 @@
+import type { ImageProviderId, PromptConstraints } from "@shared/schema";
+
+export type { ImageProviderId, PromptConstraints };
+
+export type ImageQuality = "hd" | "standard";
+
+// Providers render at their nearest native size; exact aspect ratios are cropped afterwards
+export type ImageOrientation = "square" | "landscape" | "portrait";
+
+// What a photo-conditioned render keeps from its source image:
+// "geometry" - the room's architecture and camera (a redesign of the photo)
+// "design" - everything but the lighting (a relit render of a design)
+// "none" - nothing in particular (e.g. the room from another angle)
+export type SourceImageLock = "geometry" | "design" | "none";
+
+export interface ImageGenerationInput {
+  prompt: string;
+  quality: ImageQuality;
+  sourceImage?: string; // Base64 data URL of the user's room photo
+  sourceLock?: SourceImageLock; // Defaults to "geometry"
+  orientation?: ImageOrientation; // Defaults to square
+  signal?: AbortSignal; // Fires when the request deadline passes
+}
+
+export interface ImageEditInput {
+  prompt: string;
+  quality: ImageQuality;
+  image: string; // Base64 data URL of the image being edited
+  mask: string; // PNG data URL, same size as image; transparent pixels are regenerated
+  orientation?: ImageOrientation;
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationOutput {
+  image: string; // Base64 data URL
+  model: string;
+  quality: string;
+  size: string; // "<width>x<height>"
+}
+
+/**
+ * Image generation provider contract
+ * Every backend that can render a room design implements this interface
+ */
+export interface ImageGenerationProvider {
+  id: ImageProviderId;
+  model: string; // Stored in designs.aiModel
+  usesSourceImage: boolean; // Whether the uploaded photo conditions the output
+
+  generate(input: ImageGenerationInput): Promise<ImageGenerationOutput>;
+
+  // Exclude/preserve lists phrased the way this model follows best ("" when both are empty)
+  formatConstraints(constraints: PromptConstraints): string;
+
+  // Inpainting - only implemented by providers that accept a mask
+  editRegion?(input: ImageEditInput): Promise<ImageGenerationOutput>;
+}
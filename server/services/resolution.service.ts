@@ -0,0 +1,99 @@
+import sharp from "sharp";
+import type { AspectRatio } from "@shared/schema";
+import type { ImageOrientation } from "./providers";
+import { parseDataUrl, toDataUrl } from "./image.service";
+
+/**
+ * Output resolution by subscription tier
+ * Providers render around 1024px; delivered images are cropped to the chosen
+ * aspect ratio, then downsampled (free) or upscaled (paid) to the tier's size
+ */
+
+export type OutputResolution = "720p" | "1080p" | "4k";
+
+// Matches the resolutions promised in pricingTiers (server/stripe.ts)
+const TIER_RESOLUTION: Record<string, OutputResolution> = {
+  free: "720p",
+  basic: "1080p",
+  india: "1080p",
+  professional: "4k",
+};
+
+// Length of the shorter edge
+const SHORT_EDGE: Record<OutputResolution, number> = {
+  "720p": 720,
+  "1080p": 1080,
+  "4k": 2160,
+};
+
+const ASPECT_RATIOS: Record<AspectRatio, { width: number; height: number; orientation: ImageOrientation }> = {
+  square: { width: 1, height: 1, orientation: "square" },
+  "4:3": { width: 4, height: 3, orientation: "landscape" },
+  "16:9": { width: 16, height: 9, orientation: "landscape" },
+  portrait: { width: 3, height: 4, orientation: "portrait" },
+};
+
+// A type alias (not an interface) so it can be stored in generationMetadata
+export type OutputTarget = {
+  width: number;
+  height: number;
+  aspectRatio: AspectRatio;
+  resolution: OutputResolution;
+};
+
+/**
+ * Delivered dimensions for a tier and aspect ratio
+ */
+export function getOutputTarget(tier: string, aspectRatio: AspectRatio = "square"): OutputTarget {
+  const resolution = TIER_RESOLUTION[tier] || "720p";
+  const ratio = ASPECT_RATIOS[aspectRatio];
+  const shortEdge = SHORT_EDGE[resolution];
+  const scale = shortEdge / Math.min(ratio.width, ratio.height);
+
+  return {
+    width: Math.round(ratio.width * scale),
+    height: Math.round(ratio.height * scale),
+    aspectRatio,
+    resolution,
+  };
+}
+
+/**
+ * Provider orientation closest to an aspect ratio
+ */
+export function getOrientation(aspectRatio: AspectRatio = "square"): ImageOrientation {
+  return ASPECT_RATIOS[aspectRatio].orientation;
+}
+
+/**
+ * Crop and resize a rendered image to the delivery target
+ * Upscaling uses Lanczos resampling with light sharpening. 4K output is
+ * encoded as JPEG to keep it a manageable size in the designs table.
+ */
+export async function resizeForDelivery(image: string, target: OutputTarget): Promise<string> {
+  const source = parseDataUrl(image).buffer;
+  const { width, height } = await sharp(source).metadata();
+
+  if (!width || !height) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  const isUpscale = target.width > width || target.height > height;
+
+  let pipeline = sharp(source).resize(target.width, target.height, {
+    fit: "cover",
+    position: "centre",
+    kernel: sharp.kernel.lanczos3,
+  });
+
+  if (isUpscale) {
+    pipeline = pipeline.sharpen({ sigma: 0.8 });
+  }
+
+  if (target.resolution === "4k") {
+    const buffer = await pipeline.flatten({ background: "#ffffff" }).jpeg({ quality: 92, mozjpeg: true }).toBuffer();
+    return toDataUrl(buffer, "image/jpeg");
+  }
+
+  return toDataUrl(await pipeline.png().toBuffer());
+}
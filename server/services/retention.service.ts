@@ -0,0 +1,126 @@
+import type { InsertNotification } from "@shared/schema";
+import { storage, type RetentionNotice } from "../storage";
+
+/**
+ * Retention policy for free-tier designs
+ * A scheduled sweep notifies free users about designs older than the
+ * retention age (a notification shown across the app, plus the account page
+ * and /api/users/stats), then archives or deletes them once the warning has
+ * been out for the warning period. Deleted designs go to the trash, so they
+ * can be restored until the trash purge removes them and their images.
+ * Archived designs come back when the user upgrades (see stripe-webhook).
+ */
+
+export type RetentionAction = "archive" | "delete";
+
+export interface RetentionPolicy {
+  retentionDays: number; // Age at which a free-tier design is warned about
+  warningDays: number; // Time between the warning and the design being archived/deleted
+  action: RetentionAction;
+}
+
+export interface RetentionSweepResult {
+  warned: number;
+  expired: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SWEEP_INTERVAL_HOURS = parseFloat(process.env.RETENTION_SWEEP_INTERVAL_HOURS || "24");
+
+/**
+ * Retention settings from the environment (see .env.example)
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const retentionDays = parseInt(process.env.FREE_TIER_RETENTION_DAYS || "");
+  const warningDays = parseInt(process.env.RETENTION_WARNING_DAYS || "");
+
+  return {
+    retentionDays: isNaN(retentionDays) ? 90 : Math.max(1, retentionDays),
+    warningDays: isNaN(warningDays) ? 7 : Math.max(0, warningDays),
+    action: process.env.FREE_TIER_RETENTION_ACTION === "delete" ? "delete" : "archive",
+  };
+}
+
+/**
+ * Warn about free-tier designs past the retention age and expire the ones
+ * whose warning period is over
+ */
+export async function runRetentionSweep(now: Date = new Date()): Promise<RetentionSweepResult> {
+  const policy = getRetentionPolicy();
+
+  // Expire first so designs warned in this sweep always get the full warning period
+  const expired = await storage.getDesignsPastRetention(new Date(now.getTime() - policy.warningDays * DAY_MS));
+  if (policy.action === "delete") {
+    for (const design of expired) {
+      await storage.trashDesign(design.id);
+    }
+  } else {
+    await storage.archiveDesigns(expired.map((design) => design.id));
+  }
+
+  // One notification per user for everything that came due in this sweep
+  const due = await storage.getDesignsDueForRetentionWarning(new Date(now.getTime() - policy.retentionDays * DAY_MS));
+  const dueByUser = new Map<number, number[]>();
+  for (const design of due) {
+    dueByUser.set(design.userId, [...(dueByUser.get(design.userId) || []), design.id]);
+  }
+
+  for (const [userId, designIds] of Array.from(dueByUser)) {
+    await storage.warnDesignsForRetention(designIds, buildRetentionWarning(userId, designIds, policy, now));
+  }
+
+  if (expired.length > 0 || due.length > 0) {
+    const action = policy.action === "delete" ? "deleted" : "archived";
+    console.log(`🧹 Retention sweep: ${due.length} design(s) warned, ${expired.length} ${action}`);
+  }
+
+  return { warned: due.length, expired: expired.length };
+}
+
+/**
+ * Run the retention sweep now and then every RETENTION_SWEEP_INTERVAL_HOURS
+ */
+export function scheduleRetentionSweep(): void {
+  const sweep = () =>
+    runRetentionSweep().catch((error) => {
+      console.error("Retention sweep failed:", error);
+    });
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_HOURS * 60 * 60 * 1000).unref();
+}
+
+function buildRetentionWarning(
+  userId: number,
+  designIds: number[],
+  policy: RetentionPolicy,
+  now: Date
+): InsertNotification {
+  const expiresAt = new Date(now.getTime() + policy.warningDays * DAY_MS);
+  const outcome = policy.action === "delete" ? "moved to the trash" : "archived";
+
+  return {
+    userId,
+    kind: "retention_warning",
+    title: "Some of your designs are expiring",
+    message:
+      `${designIds.length} design(s) older than ${policy.retentionDays} days will be ${outcome} on ` +
+      `${expiresAt.toDateString()}. Download anything you want to keep, or upgrade your plan to keep all your designs.`,
+    data: { designIds, action: policy.action, expiresAt: expiresAt.toISOString() },
+  };
+}
+
+/**
+ * When a user's warned designs will be archived or deleted, for the account page
+ */
+export function describeRetentionNotice(notice: RetentionNotice) {
+  const policy = getRetentionPolicy();
+
+  return {
+    retentionDays: policy.retentionDays,
+    action: policy.action,
+    expiringDesigns: notice.expiringDesigns,
+    expiresAt: notice.firstWarnedAt ? new Date(notice.firstWarnedAt.getTime() + policy.warningDays * DAY_MS) : null,
+  };
+}
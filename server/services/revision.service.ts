@@ -0,0 +1,32 @@
+/**
+ * Design revision history
+ * Edits, variations, upscales, regenerations and reverts are saved as child
+ * designs (parentDesignId plus revisionOperation), so a design made from a
+ * room photo is the root of a tree of every revision that followed it.
+ */
+
+export type RevisionNode<T> = T & { children: RevisionNode<T>[] };
+
+/**
+ * Arrange a lineage (see storage.getDesignLineage) into a tree, oldest first
+ * Revisions whose parent isn't in the list (trashed or purged) become roots.
+ */
+export function buildRevisionTree<T extends { id: number; parentDesignId: number | null }>(
+  designs: T[]
+): RevisionNode<T>[] {
+  const nodes = new Map<number, RevisionNode<T>>(designs.map((design) => [design.id, { ...design, children: [] }]));
+  const roots: RevisionNode<T>[] = [];
+
+  for (const design of designs) {
+    const node = nodes.get(design.id)!;
+    const parent = design.parentDesignId !== null ? nodes.get(design.parentDesignId) : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
@@ -0,0 +1,79 @@
+import { storage, type StorageUsage } from "../storage";
+
+/**
+ * Saved-design storage limits by subscription tier
+ * Usage is the number of designs in the library plus the bytes of their
+ * full-size images and alternative views (thumbnails aren't counted).
+ * Images shared between designs count once. Archived designs don't count
+ * towards the quota.
+ */
+
+export interface StorageQuota {
+  designs: number | null; // null = unlimited
+  bytes: number;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const TIER_QUOTAS: Record<string, StorageQuota> = {
+  free: { designs: 25, bytes: 250 * MB },
+  basic: { designs: 1000, bytes: 10 * GB },
+  india: { designs: 1000, bytes: 10 * GB },
+  professional: { designs: null, bytes: 100 * GB },
+};
+
+export class StorageQuotaError extends Error {
+  readonly code = "STORAGE_QUOTA_EXCEEDED";
+
+  constructor(
+    message: string,
+    readonly usage: StorageUsage,
+    readonly quota: StorageQuota
+  ) {
+    super(message);
+    this.name = "StorageQuotaError";
+  }
+}
+
+export function getStorageQuota(tier: string): StorageQuota {
+  return TIER_QUOTAS[tier] || TIER_QUOTAS.free;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= GB) {
+    return `${(bytes / GB).toFixed(1)} GB`;
+  }
+  return `${Math.ceil(bytes / MB)} MB`;
+}
+
+/**
+ * Throw a StorageQuotaError if saving more designs would go over the tier's quota
+ * Generated images don't exist yet at this point, so only the incoming bytes
+ * (the uploaded room photo) are checked against the byte limit.
+ */
+export async function ensureStorageAvailable(
+  userId: number,
+  tier: string,
+  newDesigns: number,
+  incomingBytes: number = 0
+): Promise<void> {
+  const quota = getStorageQuota(tier);
+  const usage = await storage.getUserStorageUsage(userId);
+
+  if (quota.designs !== null && usage.designs + newDesigns > quota.designs) {
+    throw new StorageQuotaError(
+      `Your plan stores up to ${quota.designs} designs and you have ${usage.designs}. Delete some designs or upgrade your plan to save more.`,
+      usage,
+      quota
+    );
+  }
+
+  if (usage.bytes + incomingBytes > quota.bytes) {
+    throw new StorageQuotaError(
+      `Your designs use ${formatBytes(usage.bytes)} of your ${formatBytes(quota.bytes)} storage. Delete some designs or upgrade your plan to save more.`,
+      usage,
+      quota
+    );
+  }
+}
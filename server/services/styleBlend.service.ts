@@ -0,0 +1,66 @@
+import type { DesignStyle, StyleWeight } from "@shared/schema";
+import { storage } from "../storage";
+
+/**
+ * Style blending
+ * A blend ("60% Scandinavian, 40% Industrial") is rendered as one synthetic
+ * style: the name spells out the mix and each style contributes prompt
+ * modifiers in proportion to its weight. Templates are picked for the
+ * dominant (heaviest) style.
+ */
+
+/**
+ * Merge duplicate styles, scale weights to sum to 1 and sort heaviest first
+ */
+export function normalizeStyleWeights(entries: StyleWeight[]): StyleWeight[] {
+  const totals = new Map<number, number>();
+  for (const { styleId, weight } of entries) {
+    totals.set(styleId, (totals.get(styleId) || 0) + weight);
+  }
+
+  const sum = Array.from(totals.values()).reduce((total, weight) => total + weight, 0);
+
+  return Array.from(totals, ([styleId, weight]) => ({ styleId, weight: Math.round((weight / sum) * 100) / 100 }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Combine weighted styles into a single style for prompt construction
+ * Expects normalized weights (see normalizeStyleWeights) in the same order as `styles`
+ */
+export function blendStyles(styles: DesignStyle[], weights: StyleWeight[]): DesignStyle {
+  const [dominant] = styles;
+  if (styles.length === 1) {
+    return dominant;
+  }
+
+  const weightOf = (style: DesignStyle) => weights.find((entry) => entry.styleId === style.id)?.weight || 0;
+
+  // A blend carries as many modifiers as its longest style, shared out by weight
+  const budget = Math.max(...styles.map((style) => style.promptModifiers?.length || 0));
+  const modifiers = styles.flatMap((style) =>
+    (style.promptModifiers || []).slice(0, Math.max(1, Math.round(weightOf(style) * budget)))
+  );
+
+  return {
+    ...dominant,
+    name: styles.map((style) => `${Math.round(weightOf(style) * 100)}% ${style.name}`).join(" / "),
+    description: styles.map((style) => style.description).join(" "),
+    promptModifiers: Array.from(new Set(modifiers)),
+  };
+}
+
+/**
+ * Load the styles of a blend and combine them
+ * Returns undefined if any style no longer exists
+ */
+export async function resolveStyleBlend(entries: StyleWeight[]): Promise<DesignStyle | undefined> {
+  const weights = normalizeStyleWeights(entries);
+  const styles = await Promise.all(weights.map((entry) => storage.getDesignStyle(entry.styleId)));
+
+  if (styles.some((style) => !style)) {
+    return undefined;
+  }
+
+  return blendStyles(styles as DesignStyle[], weights);
+}
@@ -0,0 +1,38 @@
+import type { PaletteColor } from "@shared/schema";
+
+/**
+ * Design tags
+ * Words describing a finished design that aren't in its title or prompt,
+ * saved with it so My Designs search can find them (see storage
+ * userDesignsFilter). Derived from the palette and generation settings.
+ */
+
+const STAGED_TAGS = ["staged", "virtual staging"];
+
+/**
+ * Tags for a design from its palette and generationMetadata.settings, lowercase and unique
+ */
+export function extractDesignTags(palette: PaletteColor[] | null, settings: Record<string, any> = {}): string[] {
+  const tags = new Set<string>();
+
+  for (const color of palette || []) {
+    tags.add(color.name.toLowerCase());
+    tags.add(color.family);
+  }
+
+  if (settings.mode === "stage") {
+    STAGED_TAGS.forEach((tag) => tags.add(tag));
+  }
+
+  // "golden-hour" -> "golden hour"
+  for (const scenario of settings.lightingScenarios || []) {
+    tags.add(`${scenario.replace(/-/g, " ")} lighting`);
+  }
+
+  // Elements the user asked to keep are in the picture
+  for (const item of settings.preserve || []) {
+    tags.add(item.toLowerCase());
+  }
+
+  return Array.from(tags);
+}
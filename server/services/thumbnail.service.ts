@@ -0,0 +1,59 @@
+import sharp from "sharp";
+import type { ImageVariant } from "@shared/schema";
+import { readImage, storeImageBuffer, signImageUrl } from "./blob.service";
+
+/**
+ * Responsive copies of design images for the design library
+ * Each size is encoded as WebP and as JPEG (for browsers without WebP) and
+ * saved to the blob store; lists load them through srcset instead of the
+ * full-size image.
+ */
+
+// Widths suit cards in a one to four column grid at 1x and 2x density
+const VARIANT_WIDTHS: Record<ImageVariant["size"], number> = {
+  small: 320,
+  medium: 640,
+  large: 1280,
+};
+
+/**
+ * Resize an image (data URL or blob key) into every variant size
+ * Images narrower than a size aren't enlarged; identical outputs share a blob.
+ */
+export async function createImageVariants(image: string): Promise<ImageVariant[]> {
+  const { buffer } = await readImage(image);
+
+  return Promise.all(
+    (Object.entries(VARIANT_WIDTHS) as Array<[ImageVariant["size"], number]>).map(async ([size, width]) => {
+      const resized = await sharp(buffer)
+        .resize({ width, withoutEnlargement: true })
+        .toBuffer({ resolveWithObject: true });
+
+      const [webp, jpeg] = await Promise.all([
+        sharp(resized.data).webp({ quality: 80 }).toBuffer(),
+        sharp(resized.data).flatten({ background: "#ffffff" }).jpeg({ quality: 82, mozjpeg: true }).toBuffer(),
+      ]);
+
+      return {
+        size,
+        width: resized.info.width,
+        height: resized.info.height,
+        webp: await storeImageBuffer(webp, "image/webp"),
+        jpeg: await storeImageBuffer(jpeg, "image/jpeg"),
+      };
+    })
+  );
+}
+
+/**
+ * Swap a design's variant keys for signed URLs before they leave the API
+ */
+export function signImageVariants(variants: ImageVariant[] | null): ImageVariant[] | null {
+  return (
+    variants?.map((variant) => ({
+      ...variant,
+      webp: signImageUrl(variant.webp),
+      jpeg: signImageUrl(variant.jpeg),
+    })) ?? null
+  );
+}
@@ -0,0 +1,64 @@
+import { storage } from "../storage";
+import { deleteUnreferencedImages } from "./blob.service";
+
+/**
+ * Trash for deleted designs
+ * DELETE /api/designs/:id only moves a design to the trash; it can be restored
+ * from there until the scheduled purge removes it for good.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How often the purge runs; designs are kept for whole days, so hourly is plenty
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Days a design stays in the trash (see .env.example)
+ */
+export function getTrashRetentionDays(): number {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || "");
+  return isNaN(days) ? 30 : Math.max(1, days);
+}
+
+/**
+ * When a design moved to the trash at deletedAt will be purged
+ */
+export function getPurgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+}
+
+/**
+ * Delete a design in the trash for good, with the variations trashed along with it
+ */
+export async function deleteFromTrash(id: number): Promise<number> {
+  const deleted = await storage.deleteTrashedDesign(id);
+  await deleteUnreferencedImages(deleted.images);
+  return deleted.ids.length;
+}
+
+/**
+ * Permanently delete designs that have been in the trash past the retention period
+ */
+export async function purgeTrash(now: Date = new Date()): Promise<number> {
+  const purged = await storage.purgeTrashedDesigns(new Date(now.getTime() - getTrashRetentionDays() * DAY_MS));
+  const deletedImages = await deleteUnreferencedImages(purged.images);
+
+  if (purged.ids.length > 0) {
+    console.log(`🗑️  Purged ${purged.ids.length} design(s) and ${deletedImages} image(s) from the trash`);
+  }
+
+  return purged.ids.length;
+}
+
+/**
+ * Purge the trash now and then every hour
+ */
+export function scheduleTrashPurge(): void {
+  const purge = () =>
+    purgeTrash().catch((error) => {
+      console.error("Trash purge failed:", error);
+    });
+
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,65 @@
+import { storage } from "../storage";
+import { unlockWatermarkedDesigns } from "./watermark.service";
+
+/**
+ * Design clean-up after an upgrade to a paid plan
+ * Watermarked designs are swapped for their clean originals and designs the
+ * retention policy archived come back. The Stripe webhook only queues the
+ * work so it can acknowledge the event straight away. Every step is a
+ * conditional update per design, so a retried webhook or the startup sweep
+ * repeats nothing.
+ */
+
+const pendingUsers = new Set<number>();
+let draining = false;
+
+/**
+ * Queue the upgrade clean-up for a user (no-op if it's already queued)
+ */
+export function enqueueUpgradeCleanup(userId: number): void {
+  pendingUsers.add(userId);
+  drainUpgradeQueue();
+}
+
+/**
+ * Queue clean-up for paid users whose designs are still locked or archived
+ * Picks up work lost when a server stopped before finishing it. Call once at startup.
+ */
+export async function recoverPendingUpgrades(): Promise<void> {
+  const userIds = await storage.getUpgradedUsersWithLockedDesigns();
+  userIds.forEach(enqueueUpgradeCleanup);
+}
+
+async function drainUpgradeQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    // One user at a time - unlocking re-creates thumbnails, which is CPU heavy
+    for (const userId of Array.from(pendingUsers)) {
+      pendingUsers.delete(userId);
+
+      try {
+        await applyUpgrade(userId);
+      } catch (error) {
+        console.error(`Upgrade clean-up failed for user ${userId}:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+
+  // Users queued while the last one was running
+  if (pendingUsers.size > 0) {
+    drainUpgradeQueue();
+  }
+}
+
+async function applyUpgrade(userId: number): Promise<void> {
+  await unlockWatermarkedDesigns(userId);
+
+  const restored = await storage.restoreArchivedDesigns(userId);
+  if (restored > 0) {
+    console.log(`📦 Restored ${restored} archived design(s) for user ${userId}`);
+  }
+}
@@ -0,0 +1,212 @@
+import sharp from "sharp";
+import convertHeic from "heic-convert";
+import { toDataUrl } from "./image.service";
+
+/**
+ * Server-side normalization of uploaded room photos
+ * Every upload is sniffed by its magic bytes (the declared MIME type is ignored),
+ * turned upright from its EXIF orientation, stripped of EXIF/GPS metadata and
+ * re-encoded as a JPEG no larger than the canonical working size.
+ */
+
+export type UploadFormat = "jpeg" | "png" | "webp" | "heic" | "avif";
+
+export type InvalidImageCode = "INVALID_IMAGE" | "UNSUPPORTED_IMAGE_TYPE" | "IMAGE_TOO_SMALL" | "IMAGE_TOO_LARGE";
+
+export class InvalidImageError extends Error {
+  constructor(public code: InvalidImageCode, message: string) {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+export interface NormalizedUpload {
+  image: string; // JPEG data URL
+  width: number;
+  height: number;
+  sourceFormat: UploadFormat;
+}
+
+// Long edge of the working copy - large enough for every provider, small enough to keep rows lean
+const MAX_EDGE = parseInt(process.env.UPLOAD_MAX_EDGE || "2048");
+
+// Anything smaller has too little detail to redesign
+const MIN_EDGE = 256;
+
+// Guards against decompression bombs (about 8000 x 8000)
+const MAX_INPUT_PIXELS = 64_000_000;
+
+// ISO-BMFF brands used by phone HEIC/HEIF photos
+const HEIF_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+
+/**
+ * Identify an image by its leading bytes
+ */
+export function detectImageFormat(buffer: Buffer): UploadFormat | null {
+  if (buffer.length < 12) {
+    return null;
+  }
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "jpeg";
+  }
+
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") {
+    return "webp";
+  }
+
+  if (buffer.toString("latin1", 4, 8) === "ftyp") {
+    const brand = buffer.toString("latin1", 8, 12);
+    if (brand === "avif" || brand === "avis") return "avif";
+    if (HEIF_BRANDS.has(brand)) return "heic";
+  }
+
+  return null;
+}
+
+/**
+ * Largest image size declared by a HEIF file's 'ispe' (image spatial extents) properties
+ * Covers the primary image, its tiles and thumbnails, so it's an upper bound on what
+ * decoding produces. Null when the header has none.
+ */
+function readHeifSize(buffer: Buffer): { width: number; height: number } | null {
+  const meta = findBox(buffer, 0, buffer.length, "meta");
+  // meta is a full box: version and flags come before its children
+  const iprp = meta && findBox(buffer, meta.start + 4, meta.end, "iprp");
+  const ipco = iprp && findBox(buffer, iprp.start, iprp.end, "ipco");
+  if (!ipco) {
+    return null;
+  }
+
+  let largest: { width: number; height: number } | null = null;
+  for (const box of readBoxes(buffer, ipco.start, ipco.end)) {
+    // Full box: version and flags, then 32-bit width and height
+    if (box.type !== "ispe" || box.end - box.start < 12) continue;
+    const width = buffer.readUInt32BE(box.start + 4);
+    const height = buffer.readUInt32BE(box.start + 8);
+    if (!largest || width * height > largest.width * largest.height) {
+      largest = { width, height };
+    }
+  }
+  return largest;
+}
+
+interface IsoBox {
+  type: string;
+  start: number; // Offset of the box's content, after its header
+  end: number;
+}
+
+function findBox(buffer: Buffer, start: number, end: number, type: string): IsoBox | undefined {
+  return readBoxes(buffer, start, end).find((box) => box.type === type);
+}
+
+/**
+ * ISO-BMFF boxes between two offsets; stops at the first malformed one
+ */
+function readBoxes(buffer: Buffer, start: number, end: number): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      // 64-bit size follows the type
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      // Runs to the end of its parent
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+
+    boxes.push({ type: buffer.toString("latin1", offset + 4, offset + 8), start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Decode a data URL (or bare base64) upload without trusting its declared type
+ */
+function decodeUpload(upload: string): Buffer {
+  const payload = upload.startsWith("data:") ? upload.slice(upload.indexOf(",") + 1) : upload;
+
+  if (!/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(payload)) {
+    throw new InvalidImageError("INVALID_IMAGE", "The uploaded file is not valid base64 image data.");
+  }
+
+  return Buffer.from(payload, "base64");
+}
+
+/**
+ * Validate and normalize an uploaded room photo into the canonical working copy
+ */
+export async function normalizeUploadedImage(upload: string): Promise<NormalizedUpload> {
+  let buffer = decodeUpload(upload);
+  const sourceFormat = detectImageFormat(buffer);
+
+  if (!sourceFormat) {
+    throw new InvalidImageError(
+      "UNSUPPORTED_IMAGE_TYPE",
+      "Please upload a JPEG, PNG, WebP or HEIC photo."
+    );
+  }
+
+  // sharp's prebuilt libheif only decodes AV1, so HEVC photos from phones go through heic-convert
+  // It has no pixel limit of its own, so the size declared in the header is checked first
+  if (sourceFormat === "heic") {
+    const size = readHeifSize(buffer);
+    if (!size) {
+      throw new InvalidImageError("INVALID_IMAGE", "The HEIC photo could not be read. Try exporting it as JPEG.");
+    }
+    if (size.width * size.height > MAX_INPUT_PIXELS) {
+      throw new InvalidImageError("IMAGE_TOO_LARGE", "The photo's resolution is too large. Please upload a smaller image.");
+    }
+
+    try {
+      buffer = Buffer.from(await convertHeic({ buffer, format: "JPEG", quality: 0.92 }));
+    } catch {
+      throw new InvalidImageError("INVALID_IMAGE", "The HEIC photo could not be read. Try exporting it as JPEG.");
+    }
+  }
+
+  let result: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    // rotate() applies the EXIF orientation; metadata (EXIF, GPS, XMP) is dropped on output
+    result = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(MAX_EDGE, MAX_EDGE, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 90, mozjpeg: true })
+      .toBuffer({ resolveWithObject: true });
+  } catch (error: any) {
+    if (/pixel limit/i.test(error?.message || "")) {
+      throw new InvalidImageError("IMAGE_TOO_LARGE", "The photo's resolution is too large. Please upload a smaller image.");
+    }
+    throw new InvalidImageError("INVALID_IMAGE", "The uploaded image is corrupted or incomplete.");
+  }
+
+  const { width, height } = result.info;
+
+  if (Math.min(width, height) < MIN_EDGE) {
+    throw new InvalidImageError(
+      "IMAGE_TOO_SMALL",
+      `The photo is too small. Please upload an image at least ${MIN_EDGE}px on each side.`
+    );
+  }
+
+  return {
+    image: toDataUrl(result.data, "image/jpeg"),
+    width,
+    height,
+    sourceFormat,
+  };
+}
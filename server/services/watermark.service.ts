@@ -0,0 +1,198 @@
+import sharp from "sharp";
+import { storage } from "../storage";
+import { parseDataUrl, toDataUrl, escapeXml } from "./image.service";
+import { createImageVariants } from "./thumbnail.service";
+import { deleteUnreferencedImages } from "./blob.service";
+import type { Design } from "@shared/schema";
+
+export type WatermarkPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right" | "center";
+
+export interface WatermarkOptions {
+  text: string;
+  position: WatermarkPosition;
+  opacity: number; // 0-1
+  tiled: boolean; // Repeat diagonally across the whole image instead of one mark
+  scale: number; // Mark width as a fraction of the image width
+}
+
+const POSITION_GRAVITY: Record<WatermarkPosition, string> = {
+  "top-left": "northwest",
+  "top-right": "northeast",
+  "bottom-left": "southwest",
+  "bottom-right": "southeast",
+  center: "centre",
+};
+
+/**
+ * Watermark settings from the environment (see .env.example)
+ */
+export function getWatermarkOptions(): WatermarkOptions {
+  const position = process.env.WATERMARK_POSITION as WatermarkPosition | undefined;
+  const opacity = parseFloat(process.env.WATERMARK_OPACITY || "");
+  const scale = parseFloat(process.env.WATERMARK_SCALE || "");
+
+  return {
+    text: process.env.WATERMARK_TEXT || "AIfy Interiors",
+    position: position && position in POSITION_GRAVITY ? position : "bottom-right",
+    opacity: isNaN(opacity) ? 0.45 : Math.min(1, Math.max(0, opacity)),
+    tiled: process.env.WATERMARK_TILED === "true",
+    scale: isNaN(scale) ? 0.3 : Math.min(1, Math.max(0.05, scale)),
+  };
+}
+
+/**
+ * Composite the watermark onto an image (free tier output)
+ * Returns a PNG data URL
+ */
+export async function addWatermark(
+  image: string,
+  overrides: Partial<WatermarkOptions> = {}
+): Promise<string> {
+  const options = { ...getWatermarkOptions(), ...overrides };
+  const source = parseDataUrl(image).buffer;
+  const { width, height } = await sharp(source).metadata();
+
+  if (!width || !height) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  const markWidth = Math.round(width * options.scale);
+  const fontSize = Math.max(12, Math.round(markWidth / Math.max(options.text.length, 1) / 0.6));
+
+  const overlay = options.tiled
+    ? { input: buildTiledSvg(options, width, height, fontSize), left: 0, top: 0 }
+    : { input: buildMarkSvg(options, markWidth, fontSize), gravity: POSITION_GRAVITY[options.position] };
+
+  const buffer = await sharp(source).composite([overlay]).png().toBuffer();
+
+  return toDataUrl(buffer);
+}
+
+// Listing sites require virtually staged photos to say so on the image itself
+export const STAGING_DISCLOSURE_TEXT = "Virtually Staged";
+
+/**
+ * Burn a disclosure label into the bottom-left corner of an image
+ * Unlike the watermark this applies to every tier and survives an upgrade.
+ * Returns a PNG data URL
+ */
+export async function addDisclosureLabel(image: string, text: string = STAGING_DISCLOSURE_TEXT): Promise<string> {
+  const source = parseDataUrl(image).buffer;
+  const { width, height } = await sharp(source).metadata();
+
+  if (!width || !height) {
+    throw new Error("Could not read image dimensions");
+  }
+
+  const fontSize = Math.max(14, Math.round(Math.min(width, height) * 0.035));
+  const margin = Math.round(fontSize * 0.8);
+  const labelHeight = Math.round(fontSize * 1.8);
+  const labelWidth = Math.round(text.length * fontSize * 0.62 + fontSize * 1.6);
+  const top = height - margin - labelHeight;
+
+  const overlay = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect x="${margin}" y="${top}" width="${labelWidth}" height="${labelHeight}" rx="${Math.round(fontSize * 0.3)}" fill="#000000" fill-opacity="0.75"/>` +
+      `<text x="${margin + labelWidth / 2}" y="${top + labelHeight / 2}" text-anchor="middle" dominant-baseline="central" ` +
+      `font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="bold" fill="#ffffff">` +
+      escapeXml(text) +
+      `</text>` +
+      `</svg>`
+  );
+
+  const buffer = await sharp(source).composite([{ input: overlay, left: 0, top: 0 }]).png().toBuffer();
+
+  return toDataUrl(buffer);
+}
+
+/**
+ * Swap a design's watermarked image for its clean original
+ * Safe to repeat: returns undefined when the design has no clean original
+ * waiting (already unlocked, or made before they were kept).
+ */
+export async function unlockDesign(design: Design): Promise<Design | undefined> {
+  if (!design.hasWatermark || !design.unwatermarkedImage) {
+    return undefined;
+  }
+
+  const unlocked = await storage.unlockDesign(
+    design.id,
+    design.unwatermarkedImage,
+    await createImageVariants(design.unwatermarkedImage)
+  );
+
+  // Nothing shows the watermarked render and its thumbnails any more
+  if (unlocked) {
+    await deleteUnreferencedImages([
+      design.generatedImage,
+      ...(design.generatedImageVariants || []).flatMap((variant) => [variant.webp, variant.jpeg]),
+    ]);
+  }
+
+  return unlocked;
+}
+
+/**
+ * Swap watermarked images for their clean originals once a user has upgraded
+ * Returns the number of designs unlocked
+ */
+export async function unlockWatermarkedDesigns(userId: number): Promise<number> {
+  // Trashed designs too, so they're clean if they're restored
+  const lockedDesigns = await storage.getWatermarkedDesigns(userId, { includeTrashed: true });
+  let unlocked = 0;
+
+  for (const design of lockedDesigns) {
+    if (await unlockDesign(design)) {
+      unlocked++;
+    }
+  }
+
+  console.log(`🔓 Unlocked ${unlocked} watermarked design(s) for user ${userId}`);
+
+  return unlocked;
+}
+
+/**
+ * Single text mark with padding so it sits off the image edge
+ */
+function buildMarkSvg(options: WatermarkOptions, markWidth: number, fontSize: number): Buffer {
+  const padding = Math.round(fontSize * 0.8);
+  const width = markWidth + padding * 2;
+  const height = Math.round(fontSize * 1.4) + padding * 2;
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      markText(options, width / 2, height / 2, fontSize) +
+      `</svg>`
+  );
+}
+
+/**
+ * Full-size overlay repeating the mark on a rotated grid
+ */
+function buildTiledSvg(options: WatermarkOptions, width: number, height: number, fontSize: number): Buffer {
+  const tileWidth = Math.round(fontSize * options.text.length * 0.6 + fontSize * 3);
+  const tileHeight = Math.round(fontSize * 4);
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<defs><pattern id="wm" width="${tileWidth}" height="${tileHeight}" patternUnits="userSpaceOnUse" patternTransform="rotate(-30)">` +
+      markText(options, tileWidth / 2, tileHeight / 2, fontSize) +
+      `</pattern></defs>` +
+      `<rect width="100%" height="100%" fill="url(#wm)"/>` +
+      `</svg>`
+  );
+}
+
+function markText(options: WatermarkOptions, x: number, y: number, fontSize: number): string {
+  const strokeWidth = Math.max(1, Math.round(fontSize / 20));
+
+  return (
+    `<text x="${x}" y="${y}" text-anchor="middle" dominant-baseline="middle" ` +
+    `font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="bold" ` +
+    `fill="#ffffff" fill-opacity="${options.opacity}" ` +
+    `stroke="#000000" stroke-opacity="${options.opacity / 2}" stroke-width="${strokeWidth}">` +
+    escapeXml(options.text) +
+    `</text>`
+  );
+}
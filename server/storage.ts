@@ -1,16 +1,28 @@
 import {
   users,
   designs,
+  designBatches,
+  designViews,
   designStyles,
   roomTypes,
   products,
   creditTransactions,
   subscriptions,
   favorites,
+  promptTemplates,
+  moderationEvents,
+  generationCosts,
+  notifications,
+  imageBlobs,
   type User,
   type InsertUser,
   type Design,
   type InsertDesign,
+  type ImageVariant,
+  type DesignView,
+  type InsertDesignView,
+  type DesignBatch,
+  type InsertDesignBatch,
   type DesignStyle,
   type InsertDesignStyle,
   type RoomType,
@@ -19,9 +31,100 @@ import {
   type InsertProduct,
   type CreditTransaction,
   type Subscription,
+  type PromptTemplate,
+  type InsertPromptTemplate,
+  type ModerationEvent,
+  type GenerationCost,
+  type InsertGenerationCost,
+  type InsertModerationEvent,
+  type Notification,
+  type InsertNotification,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, ne, desc, and, or, sql, isNull, isNotNull, gte, lt, inArray, getTableColumns, type SQL } from "drizzle-orm";
+
+export interface DesignListOptions {
+  styleId?: number;
+  roomTypeId?: number;
+  favoritesOnly?: boolean;
+  excludeVariations?: boolean; // Variations are listed under their original instead
+  color?: string; // Lowercase palette color name or family, e.g. "navy" or "blue"
+  search?: string; // Full-text query over title, prompt, style and room type names and tags
+  createdAfter?: Date;
+  createdBefore?: Date;
+  creationTier?: string; // Tier the user was on when the design was made
+  isPublic?: boolean;
+}
+
+// Counts for the My Designs filter sidebar. Each facet is counted with every
+// other filter applied but not its own, so picking an option leaves the rest
+// of that facet's options selectable.
+export interface DesignFacets {
+  createdWithin: Record<keyof typeof CREATED_WITHIN_DAYS, number>;
+  colors: Array<{ family: string; count: number }>; // Most designs first
+  creationTiers: Array<{ tier: string; count: number }>; // Most designs first
+  visibility: { public: number; private: number };
+}
+
+export interface TrashOptions {
+  includeTrashed?: boolean; // Designs in the trash are left out unless asked for
+}
+
+// A trashed design in the trash list
+export type TrashedDesign = DesignListItem & { deletedAt: Date };
+
+// A generating design failed by one of the claim-style updates below; the caller refunds it
+export interface FailedGeneration {
+  id: number;
+  userId: number;
+  creditCost: number;
+}
+
+export interface StorageUsage {
+  designs: number;
+  bytes: number;
+}
+
+export interface RetentionNotice {
+  expiringDesigns: number; // Warned designs that haven't expired yet
+  firstWarnedAt: Date | null;
+}
+
+// A design without its generation metadata and clean render, for listing
+export type DesignListItem = Omit<Design, "generationMetadata" | "unwatermarkedImage" | "searchVector">;
+
+// A design view without its image, returned from writes
+export type DesignViewSummary = Omit<DesignView, "image">;
+
+// Designs deleted for good and the images their rows and views pointed at,
+// for blob.service to clean up once nothing else refers to them
+export interface DeletedDesigns {
+  ids: number[];
+  images: string[];
+}
+
+export interface PromptTemplateOutcome {
+  templateId: number | null; // null = built-in fallback template
+  templateName: string;
+  templateVersion: number;
+  totalDesigns: number;
+  favoritedDesigns: number;
+  regeneratedDesigns: number; // Designs the user rendered again (edits, variations etc. don't count)
+}
+
+export interface CostTotals {
+  calls: number;
+  failedCalls: number;
+  costUsd: number;
+}
+
+export interface GenerationCostReport {
+  totals: CostTotals;
+  byDay: Array<CostTotals & { day: string }>; // YYYY-MM-DD (UTC)
+  byTier: Array<CostTotals & { tier: string }>; // Tier at the time of the call
+  byStyle: Array<CostTotals & { styleId: number | null; styleName: string | null }>;
+  byUser: Array<CostTotals & { userId: number; email: string; tier: string }>; // Most expensive first
+}
 
 // Storage interface definition
 export interface IStorage {
@@ -32,12 +135,60 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
 
-  // Designs
-  getDesign(id: number): Promise<Design | undefined>;
-  getUserDesigns(userId: number, options?: { limit?: number; offset?: number }): Promise<Design[]>;
+  // Designs (trashed designs are left out; see TrashOptions)
+  getDesign(id: number, options?: TrashOptions): Promise<Design | undefined>;
+  getUserDesigns(userId: number, options?: DesignListOptions & { limit?: number; offset?: number }): Promise<DesignListItem[]>;
+  getUserDesignsCount(userId: number, options?: DesignListOptions): Promise<number>;
+  getUserDesignFacets(userId: number, options?: DesignListOptions): Promise<DesignFacets>;
+  getDesignVariations(parentIds: number[]): Promise<DesignListItem[]>;
+  getDesignLineage(designId: number): Promise<DesignListItem[]>;
+  getDesignsByStatus(status: string, options?: TrashOptions): Promise<Design[]>;
+  getWatermarkedDesigns(userId: number, options?: TrashOptions): Promise<Design[]>;
+  unlockDesign(id: number, cleanImage: string, cleanImageVariants: ImageVariant[] | null): Promise<Design | undefined>;
   createDesign(design: InsertDesign): Promise<Design>;
   updateDesign(id: number, updates: Partial<InsertDesign>): Promise<Design | undefined>;
-  deleteDesign(id: number): Promise<boolean>;
+  refreshSearchVectors(designIds: number[]): Promise<void>;
+
+  // Generation Leases
+  renewGenerationLeases(designIds: number[], workerId: string, expiresAt: Date): Promise<number[]>;
+  finishGeneration(id: number, workerId: string, updates: Partial<InsertDesign>): Promise<Design | undefined>;
+  failGenerations(designIds: number[], error: string): Promise<FailedGeneration[]>;
+  failExpiredGenerations(now: Date, unleasedBefore: Date, error: string): Promise<FailedGeneration[]>;
+
+  // Design Trash
+  getTrashedDesigns(userId: number, options?: { limit?: number; offset?: number }): Promise<TrashedDesign[]>;
+  getTrashedDesignsCount(userId: number): Promise<number>;
+  trashDesign(id: number): Promise<boolean>;
+  restoreDesign(id: number): Promise<boolean>;
+  deleteTrashedDesign(id: number): Promise<DeletedDesigns>;
+  purgeTrashedDesigns(trashedBefore: Date): Promise<DeletedDesigns>;
+
+  // Design Storage & Retention
+  getUserStorageUsage(userId: number): Promise<StorageUsage>;
+  getDesignsDueForRetentionWarning(createdBefore: Date): Promise<Array<{ id: number; userId: number }>>;
+  warnDesignsForRetention(designIds: number[], notification: InsertNotification): Promise<Notification>;
+  getDesignsPastRetention(warnedBefore: Date): Promise<Array<{ id: number; userId: number }>>;
+  archiveDesigns(designIds: number[]): Promise<void>;
+  restoreArchivedDesigns(userId: number): Promise<number>;
+  getUpgradedUsersWithLockedDesigns(): Promise<number[]>;
+  getRetentionNotice(userId: number): Promise<RetentionNotice>;
+
+  // Design Views
+  getDesignViews(designId: number): Promise<DesignView[]>;
+  getDesignView(id: number): Promise<DesignView | undefined>;
+  createDesignViews(views: InsertDesignView[]): Promise<DesignViewSummary[]>;
+  updateDesignView(id: number, updates: Partial<InsertDesignView>): Promise<DesignViewSummary | undefined>;
+  deleteDesignView(id: number): Promise<DesignView | undefined>;
+
+  // Image References
+  getReferencedImageKeys(keys: string[]): Promise<string[]>;
+  recordImageBlob(key: string, bytes: number): Promise<void>;
+  deleteImageBlobs(keys: string[]): Promise<void>;
+
+  // Design Batches
+  createDesignBatch(batch: InsertDesignBatch): Promise<DesignBatch>;
+  getDesignBatch(id: number): Promise<DesignBatch | undefined>;
+  getBatchDesigns(batchId: number): Promise<Design[]>;
 
   // Design Styles
   getDesignStyles(): Promise<DesignStyle[]>;
@@ -70,6 +221,27 @@ export interface IStorage {
   updateCreditTransaction(id: number, updates: { designId?: number }): Promise<void>;
   getCreditTransactions(userId: number, limit?: number): Promise<CreditTransaction[]>;
 
+  // Prompt Templates
+  getPromptTemplates(): Promise<PromptTemplate[]>;
+  getActivePromptTemplates(): Promise<PromptTemplate[]>;
+  getPromptTemplate(id: number): Promise<PromptTemplate | undefined>;
+  getLatestPromptTemplateVersion(name: string): Promise<number>;
+  createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate>;
+  updatePromptTemplate(id: number, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined>;
+  getPromptTemplateOutcomes(): Promise<PromptTemplateOutcome[]>;
+
+  // Moderation
+  createModerationEvent(event: InsertModerationEvent): Promise<ModerationEvent>;
+  getModerationEvents(options?: { limit?: number; action?: string }): Promise<ModerationEvent[]>;
+
+  // Notifications
+  getUserNotifications(userId: number, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+
+  // Generation Costs
+  createGenerationCost(cost: InsertGenerationCost): Promise<GenerationCost>;
+  getGenerationCostReport(options: { from: Date; to: Date; tier?: string; userLimit?: number }): Promise<GenerationCostReport>;
+
   // Subscriptions
   getSubscriptionByUserId(userId: number): Promise<Subscription | undefined>;
   createSubscription(subscription: Omit<Subscription, "id" | "createdAt" | "updatedAt">): Promise<Subscription>;
@@ -111,77 +283,557 @@ export class PgStorage implements IStorage {
 
   // ==================== DESIGN METHODS ====================
 
-  async getDesign(id: number): Promise<Design | undefined> {
-    const result = await db.select().from(designs).where(eq(designs.id, id));
+  async getDesign(id: number, options?: TrashOptions): Promise<Design | undefined> {
+    const result = await db
+      .select()
+      .from(designs)
+      .where(and(eq(designs.id, id), trashFilter(options)));
     return result[0];
   }
 
-  async getUserDesigns(userId: number, options?: { limit?: number; offset?: number; styleId?: number; roomTypeId?: number; favoritesOnly?: boolean }): Promise<Design[]> {
+  async getUserDesigns(userId: number, options?: DesignListOptions & { limit?: number; offset?: number }): Promise<DesignListItem[]> {
     const limit = options?.limit || 20;
     const offset = options?.offset || 0;
 
-    let query = db
+    // Searches put the best matches first
+    const order = options?.search
+      ? [desc(sql`ts_rank(${designs.searchVector}, ${searchQuery(options.search)})`), desc(designs.createdAt)]
+      : [desc(designs.createdAt)];
+
+    return await db
+      .select(designListColumns)
+      .from(designs)
+      .where(userDesignsFilter(userId, options))
+      .orderBy(...order)
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async getUserDesignsCount(userId: number, options?: DesignListOptions): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(designs)
+      .where(userDesignsFilter(userId, options));
+
+    return Number(result[0]?.count || 0);
+  }
+
+  async getUserDesignFacets(userId: number, options?: DesignListOptions): Promise<DesignFacets> {
+    const withinFilter = facetFilter(options, "createdWithin");
+    const visibilityFilter = facetFilter(options, "visibility");
+    const countWhere = (...conditions: Array<SQL | undefined>) => sql<number>`count(*) filter (where ${and(...conditions)})`;
+    const createdSince = (days: number) => gte(designs.createdAt, new Date(Date.now() - days * DAY_MS));
+
+    const [counts, tiers, colors] = await Promise.all([
+      db
+        .select({
+          week: countWhere(withinFilter, createdSince(CREATED_WITHIN_DAYS.week)),
+          month: countWhere(withinFilter, createdSince(CREATED_WITHIN_DAYS.month)),
+          year: countWhere(withinFilter, createdSince(CREATED_WITHIN_DAYS.year)),
+          public: countWhere(visibilityFilter, eq(designs.isPublic, true)),
+          private: countWhere(visibilityFilter, eq(designs.isPublic, false)),
+        })
+        .from(designs)
+        .where(libraryFilter(userId, options)),
+      db
+        .select({ tier: sql<string>`${designs.creationTier}`, count: sql<number>`count(*)` })
+        .from(designs)
+        .where(and(userDesignsFilter(userId, options, "creationTiers"), isNotNull(designs.creationTier)))
+        .groupBy(designs.creationTier)
+        .orderBy(desc(sql`count(*)`)),
+      // One row per palette color, so a design with two blues counts once
+      db
+        .select({ family: sql<string>`color->>'family'`, count: sql<number>`count(distinct ${designs.id})` })
+        .from(designs)
+        .innerJoin(sql`jsonb_array_elements(coalesce(${designs.palette}, '[]'::jsonb)) as color`, sql`true`)
+        .where(userDesignsFilter(userId, options, "colors"))
+        .groupBy(sql`color->>'family'`)
+        .orderBy(desc(sql`count(distinct ${designs.id})`)),
+    ]);
+
+    const [row] = counts;
+    return {
+      createdWithin: { week: Number(row.week), month: Number(row.month), year: Number(row.year) },
+      colors: colors.map(({ family, count }) => ({ family, count: Number(count) })),
+      creationTiers: tiers.map(({ tier, count }) => ({ tier, count: Number(count) })),
+      visibility: { public: Number(row.public), private: Number(row.private) },
+    };
+  }
+
+  async getDesignVariations(parentIds: number[]): Promise<DesignListItem[]> {
+    if (parentIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select(designListColumns)
+      .from(designs)
+      .where(and(inArray(designs.parentDesignId, parentIds), isVariation, isNull(designs.archivedAt), trashFilter()))
+      .orderBy(designs.createdAt);
+  }
+
+  async getDesignLineage(designId: number): Promise<DesignListItem[]> {
+    // Walk up to the design made from the room photo, then collect every revision below it
+    const lineage = sql`(
+      with recursive ancestors as (
+        select id, parent_design_id from designs where id = ${designId}
+        union all
+        select parent.id, parent.parent_design_id from designs parent join ancestors on parent.id = ancestors.parent_design_id
+      ),
+      revisions as (
+        select id from ancestors where parent_design_id is null
+        union all
+        select child.id from designs child join revisions on child.parent_design_id = revisions.id
+      )
+      select id from revisions
+    )`;
+
+    return await db
+      .select(designListColumns)
+      .from(designs)
+      .where(and(inArray(designs.id, lineage), trashFilter()))
+      .orderBy(designs.createdAt);
+  }
+
+  async getDesignsByStatus(status: string, options?: TrashOptions): Promise<Design[]> {
+    return await db
       .select()
       .from(designs)
-      .where(eq(designs.userId, userId));
+      .where(and(eq(designs.status, status), trashFilter(options)))
+      .orderBy(designs.createdAt);
+  }
 
-    if (options?.styleId) {
-      query = query.where(eq(designs.styleId, options.styleId)) as any;
+  async unlockDesign(
+    id: number,
+    cleanImage: string,
+    cleanImageVariants: ImageVariant[] | null
+  ): Promise<Design | undefined> {
+    // Only while the clean original is still waiting, so a design is unlocked once
+    const result = await db
+      .update(designs)
+      .set({
+        generatedImage: cleanImage,
+        generatedImageVariants: cleanImageVariants,
+        unwatermarkedImage: null,
+        hasWatermark: false,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(designs.id, id), eq(designs.hasWatermark, true), eq(designs.unwatermarkedImage, cleanImage)))
+      .returning();
+    return result[0];
+  }
+
+  async getWatermarkedDesigns(userId: number, options?: TrashOptions): Promise<Design[]> {
+    return await db
+      .select()
+      .from(designs)
+      .where(and(eq(designs.userId, userId), eq(designs.hasWatermark, true), trashFilter(options)));
+  }
+
+  async createDesign(design: InsertDesign): Promise<Design> {
+    const result = await db.insert(designs).values(design).returning();
+    await this.refreshSearchVectors([result[0].id]);
+    return result[0];
+  }
+
+  async updateDesign(id: number, updates: Partial<InsertDesign>): Promise<Design | undefined> {
+    const result = await db
+      .update(designs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(designs.id, id))
+      .returning();
+    if (result[0] && changesSearchDocument(updates)) {
+      await this.refreshSearchVectors([id]);
+    }
+    return result[0];
+  }
+
+  async refreshSearchVectors(designIds: number[]): Promise<void> {
+    if (designIds.length === 0) {
+      return;
     }
 
-    if (options?.roomTypeId) {
-      query = query.where(eq(designs.roomTypeId, options.roomTypeId)) as any;
+    // A separate statement, as an update's expressions only see the row's old values
+    // updatedAt is left alone - the design itself hasn't changed
+    await db.update(designs).set({ searchVector: searchDocument }).where(inArray(designs.id, designIds));
+  }
+
+  // ==================== GENERATION LEASE METHODS ====================
+
+  async renewGenerationLeases(designIds: number[], workerId: string, expiresAt: Date): Promise<number[]> {
+    if (designIds.length === 0) {
+      return [];
+    }
+
+    // updatedAt is left alone - the design itself hasn't changed
+    const result = await db
+      .update(designs)
+      .set({ generationWorkerId: workerId, generationLeaseExpiresAt: expiresAt })
+      .where(
+        and(
+          inArray(designs.id, designIds),
+          eq(designs.status, "generating"),
+          or(isNull(designs.generationWorkerId), eq(designs.generationWorkerId, workerId))
+        )
+      )
+      .returning({ id: designs.id });
+    return result.map((row) => row.id);
+  }
+
+  async finishGeneration(id: number, workerId: string, updates: Partial<InsertDesign>): Promise<Design | undefined> {
+    // Only the lease holder of a design still generating can finish it - if another
+    // server has failed (and refunded) it in the meantime, this returns nothing
+    const result = await db
+      .update(designs)
+      .set({ ...updates, generationWorkerId: null, generationLeaseExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(designs.id, id), eq(designs.status, "generating"), eq(designs.generationWorkerId, workerId)))
+      .returning();
+    if (result[0] && changesSearchDocument(updates)) {
+      await this.refreshSearchVectors([id]);
     }
+    return result[0];
+  }
 
-    if (options?.favoritesOnly) {
-      query = query.where(eq(designs.isFavorite, true)) as any;
+  async failGenerations(designIds: number[], error: string): Promise<FailedGeneration[]> {
+    if (designIds.length === 0) {
+      return [];
     }
+    return await failGenerationsWhere(inArray(designs.id, designIds), error, new Date());
+  }
 
-    return await query
-      .orderBy(desc(designs.createdAt))
+  async failExpiredGenerations(now: Date, unleasedBefore: Date, error: string): Promise<FailedGeneration[]> {
+    // Trashed designs wait until they're restored
+    return await failGenerationsWhere(
+      and(
+        trashFilter(),
+        or(
+          lt(designs.generationLeaseExpiresAt, now),
+          // Queued before a lease was taken (or before leases existed)
+          and(isNull(designs.generationLeaseExpiresAt), lt(designs.createdAt, unleasedBefore))
+        )
+      ),
+      error,
+      now
+    );
+  }
+
+  // ==================== DESIGN TRASH METHODS ====================
+
+  async getTrashedDesigns(userId: number, options?: { limit?: number; offset?: number }): Promise<TrashedDesign[]> {
+    const limit = options?.limit || 20;
+    const offset = options?.offset || 0;
+
+    const rows = await db
+      .select(designListColumns)
+      .from(designs)
+      .where(trashedDesignsFilter(userId))
+      .orderBy(desc(designs.deletedAt))
       .limit(limit)
       .offset(offset);
+    return rows as TrashedDesign[];
   }
 
-  async getUserDesignsCount(userId: number, options?: { styleId?: number; roomTypeId?: number; favoritesOnly?: boolean }): Promise<number> {
-    let query = db
+  async getTrashedDesignsCount(userId: number): Promise<number> {
+    const result = await db
       .select({ count: sql<number>`count(*)` })
       .from(designs)
-      .where(eq(designs.userId, userId));
+      .where(trashedDesignsFilter(userId));
 
-    if (options?.styleId) {
-      query = query.where(eq(designs.styleId, options.styleId)) as any;
-    }
+    return Number(result[0]?.count || 0);
+  }
 
-    if (options?.roomTypeId) {
-      query = query.where(eq(designs.roomTypeId, options.roomTypeId)) as any;
+  async trashDesign(id: number): Promise<boolean> {
+    // Variations are listed under their original, so they go to the trash with it
+    const result = await db
+      .update(designs)
+      .set({ deletedAt: new Date() })
+      .where(
+        and(
+          or(eq(designs.id, id), and(eq(designs.parentDesignId, id), isVariation)),
+          isNull(designs.deletedAt)
+        )
+      )
+      .returning({ id: designs.id });
+    return result.some((row) => row.id === id);
+  }
+
+  async restoreDesign(id: number): Promise<boolean> {
+    const design = await this.getDesign(id, { includeTrashed: true });
+    if (!design?.deletedAt) {
+      return false;
     }
 
-    if (options?.favoritesOnly) {
-      query = query.where(eq(designs.isFavorite, true)) as any;
+    // Brings back the variations trashed along with it, not ones deleted before
+    await db
+      .update(designs)
+      .set({ deletedAt: null })
+      .where(
+        or(
+          eq(designs.id, id),
+          and(eq(designs.parentDesignId, id), isVariation, eq(designs.deletedAt, design.deletedAt))
+        )
+      );
+    return true;
+  }
+
+  async deleteTrashedDesign(id: number): Promise<DeletedDesigns> {
+    // Takes the variations trashed along with it, which the trash lists under it
+    return await deleteDesignsWhere(
+      and(
+        isNotNull(designs.deletedAt),
+        or(
+          eq(designs.id, id),
+          and(
+            eq(designs.parentDesignId, id),
+            isVariation,
+            eq(designs.deletedAt, sql`(select parent.deleted_at from ${designs} parent where parent.id = ${id})`)
+          )
+        )
+      )
+    );
+  }
+
+  async purgeTrashedDesigns(trashedBefore: Date): Promise<DeletedDesigns> {
+    return await deleteDesignsWhere(lt(designs.deletedAt, trashedBefore));
+  }
+
+  // ==================== DESIGN VIEW METHODS ====================
+
+  async getDesignViews(designId: number): Promise<DesignView[]> {
+    return await db
+      .select()
+      .from(designViews)
+      .where(eq(designViews.designId, designId))
+      .orderBy(designViews.position);
+  }
+
+  async getDesignView(id: number): Promise<DesignView | undefined> {
+    const result = await db.select().from(designViews).where(eq(designViews.id, id));
+    return result[0];
+  }
+
+  async createDesignViews(views: InsertDesignView[]): Promise<DesignViewSummary[]> {
+    if (views.length === 0) {
+      return [];
     }
 
-    const result = await query;
-    return Number(result[0]?.count || 0);
+    return await db.insert(designViews).values(views).returning(designViewSummaryColumns);
   }
 
-  async createDesign(design: InsertDesign): Promise<Design> {
-    const result = await db.insert(designs).values(design).returning();
+  async updateDesignView(id: number, updates: Partial<InsertDesignView>): Promise<DesignViewSummary | undefined> {
+    const result = await db
+      .update(designViews)
+      .set(updates)
+      .where(eq(designViews.id, id))
+      .returning(designViewSummaryColumns);
     return result[0];
   }
 
-  async updateDesign(id: number, updates: Partial<InsertDesign>): Promise<Design | undefined> {
+  async deleteDesignView(id: number): Promise<DesignView | undefined> {
+    const result = await db.delete(designViews).where(eq(designViews.id, id)).returning();
+    return result[0];
+  }
+
+  // ==================== IMAGE REFERENCE METHODS ====================
+
+  async getReferencedImageKeys(keys: string[]): Promise<string[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    // Trashed and archived designs still count; they can come back
+    const designRows = await db
+      .select(designImageColumns)
+      .from(designs)
+      .where(
+        or(
+          inArray(designs.originalImage, keys),
+          inArray(designs.generatedImage, keys),
+          inArray(designs.unwatermarkedImage, keys),
+          sql`exists (
+            select 1 from jsonb_array_elements(
+              coalesce(${designs.originalImageVariants}, '[]'::jsonb) || coalesce(${designs.generatedImageVariants}, '[]'::jsonb)
+            ) as variant
+            where ${or(inArray(sql`variant->>'webp'`, keys), inArray(sql`variant->>'jpeg'`, keys))}
+          )`
+        )
+      );
+
+    const viewRows = await db
+      .select({ image: designViews.image })
+      .from(designViews)
+      .where(inArray(designViews.image, keys));
+
+    const referenced = new Set([...designRows.flatMap(designImageRefs), ...viewRows.map((view) => view.image)]);
+    return keys.filter((key) => referenced.has(key));
+  }
+
+  async recordImageBlob(key: string, bytes: number): Promise<void> {
+    // Keys are content hashes, so a stored key's size never changes
+    await db.insert(imageBlobs).values({ key, bytes }).onConflictDoNothing();
+  }
+
+  async deleteImageBlobs(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+    await db.delete(imageBlobs).where(inArray(imageBlobs.key, keys));
+  }
+
+  // ==================== DESIGN STORAGE METHODS ====================
+
+  async getUserStorageUsage(userId: number): Promise<StorageUsage> {
+    const counted = and(eq(designs.userId, userId), isNull(designs.archivedAt), trashFilter());
+
+    const designCount = await db.select({ designs: sql<number>`count(*)` }).from(designs).where(counted);
+
+    // Each blob once, however many designs share it (variations, reverts, repeat uploads)
+    const blobBytes = await db
+      .select({ bytes: sql<number>`coalesce(sum(${imageBlobs.bytes}), 0)` })
+      .from(imageBlobs)
+      .where(
+        inArray(
+          imageBlobs.key,
+          sql`(
+            select ${designs.originalImage} from ${designs} where ${counted}
+            union select ${designs.generatedImage} from ${designs} where ${counted}
+            union select ${designs.unwatermarkedImage} from ${designs} where ${counted}
+            union select ${designViews.image} from ${designViews}
+              inner join ${designs} on ${designs.id} = ${designViews.designId}
+              where ${counted}
+          )`
+        )
+      );
+
+    return { designs: Number(designCount[0]?.designs || 0), bytes: Number(blobBytes[0]?.bytes || 0) };
+  }
+
+  async getDesignsDueForRetentionWarning(createdBefore: Date): Promise<Array<{ id: number; userId: number }>> {
+    return await db
+      .select({ id: designs.id, userId: designs.userId })
+      .from(designs)
+      .innerJoin(users, eq(designs.userId, users.id))
+      .where(
+        and(
+          eq(users.tier, "free"),
+          lt(designs.createdAt, createdBefore),
+          isNull(designs.retentionWarnedAt),
+          isNull(designs.archivedAt),
+          ne(designs.status, "generating"),
+          trashFilter()
+        )
+      );
+  }
+
+  async warnDesignsForRetention(designIds: number[], notification: InsertNotification): Promise<Notification> {
+    // The designs' warning period runs from when the user was notified
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(notifications).values(notification).returning();
+      await tx
+        .update(designs)
+        .set({ retentionWarnedAt: created.createdAt })
+        .where(and(inArray(designs.id, designIds), isNull(designs.retentionWarnedAt)));
+      return created;
+    });
+  }
+
+  async getDesignsPastRetention(warnedBefore: Date): Promise<Array<{ id: number; userId: number }>> {
+    return await db
+      .select({ id: designs.id, userId: designs.userId })
+      .from(designs)
+      .innerJoin(users, eq(designs.userId, users.id))
+      .where(
+        and(
+          eq(users.tier, "free"),
+          lt(designs.retentionWarnedAt, warnedBefore),
+          isNull(designs.archivedAt),
+          trashFilter()
+        )
+      );
+  }
+
+  async archiveDesigns(designIds: number[]): Promise<void> {
+    if (designIds.length === 0) {
+      return;
+    }
+
+    await db.update(designs).set({ archivedAt: new Date() }).where(inArray(designs.id, designIds));
+  }
+
+  async restoreArchivedDesigns(userId: number): Promise<number> {
+    // Pending warnings are cleared too - paid plans have no retention limit
     const result = await db
       .update(designs)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(designs.id, id))
-      .returning();
+      .set({ archivedAt: null, retentionWarnedAt: null })
+      .where(
+        and(eq(designs.userId, userId), or(isNotNull(designs.archivedAt), isNotNull(designs.retentionWarnedAt)))
+      )
+      .returning({ id: designs.id });
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(eq(notifications.userId, userId), eq(notifications.kind, "retention_warning"), isNull(notifications.readAt))
+      );
+
+    return result.length;
+  }
+
+  async getUpgradedUsersWithLockedDesigns(): Promise<number[]> {
+    const result = await db
+      .selectDistinct({ userId: designs.userId })
+      .from(designs)
+      .innerJoin(users, eq(users.id, designs.userId))
+      .where(
+        and(
+          ne(users.tier, "free"),
+          or(
+            isNotNull(designs.archivedAt),
+            isNotNull(designs.retentionWarnedAt),
+            and(eq(designs.hasWatermark, true), isNotNull(designs.unwatermarkedImage))
+          )
+        )
+      );
+    return result.map((row) => row.userId);
+  }
+
+  async getRetentionNotice(userId: number): Promise<RetentionNotice> {
+    const result = await db
+      .select({
+        expiringDesigns: sql<number>`count(*)`,
+        firstWarnedAt: sql<Date | null>`min(${designs.retentionWarnedAt})`,
+      })
+      .from(designs)
+      .where(
+        and(eq(designs.userId, userId), isNotNull(designs.retentionWarnedAt), isNull(designs.archivedAt), trashFilter())
+      );
+
+    const firstWarnedAt = result[0]?.firstWarnedAt;
+    return {
+      expiringDesigns: Number(result[0]?.expiringDesigns || 0),
+      firstWarnedAt: firstWarnedAt ? new Date(firstWarnedAt) : null,
+    };
+  }
+
+  // ==================== DESIGN BATCH METHODS ====================
+
+  async createDesignBatch(batch: InsertDesignBatch): Promise<DesignBatch> {
+    const result = await db.insert(designBatches).values(batch).returning();
+    return result[0];
+  }
+
+  async getDesignBatch(id: number): Promise<DesignBatch | undefined> {
+    const result = await db.select().from(designBatches).where(eq(designBatches.id, id));
     return result[0];
   }
 
-  async deleteDesign(id: number): Promise<boolean> {
-    const result = await db.delete(designs).where(eq(designs.id, id)).returning();
-    return result.length > 0;
+  async getBatchDesigns(batchId: number): Promise<Design[]> {
+    return await db
+      .select()
+      .from(designs)
+      .where(and(eq(designs.batchId, batchId), trashFilter()))
+      .orderBy(designs.id);
   }
 
   // ==================== DESIGN STYLE METHODS ====================
@@ -303,6 +955,185 @@ export class PgStorage implements IStorage {
       .limit(limit);
   }
 
+  // ==================== PROMPT TEMPLATE METHODS ====================
+
+  async getPromptTemplates(): Promise<PromptTemplate[]> {
+    return await db
+      .select()
+      .from(promptTemplates)
+      .orderBy(promptTemplates.name, desc(promptTemplates.version));
+  }
+
+  async getActivePromptTemplates(): Promise<PromptTemplate[]> {
+    return await db
+      .select()
+      .from(promptTemplates)
+      .where(eq(promptTemplates.isActive, true));
+  }
+
+  async getPromptTemplate(id: number): Promise<PromptTemplate | undefined> {
+    const result = await db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return result[0];
+  }
+
+  async getLatestPromptTemplateVersion(name: string): Promise<number> {
+    const result = await db
+      .select({ version: sql<number>`max(${promptTemplates.version})` })
+      .from(promptTemplates)
+      .where(eq(promptTemplates.name, name));
+    return Number(result[0]?.version || 0);
+  }
+
+  async createPromptTemplate(template: InsertPromptTemplate): Promise<PromptTemplate> {
+    const result = await db.insert(promptTemplates).values(template).returning();
+    return result[0];
+  }
+
+  async updatePromptTemplate(id: number, updates: Partial<InsertPromptTemplate>): Promise<PromptTemplate | undefined> {
+    const result = await db
+      .update(promptTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(promptTemplates.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getPromptTemplateOutcomes(): Promise<PromptTemplateOutcome[]> {
+    const template = sql`${designs.generationMetadata}->'promptTemplate'`;
+
+    const rows = await db
+      .select({
+        templateId: sql<number | null>`(${template}->>'id')::int`,
+        templateName: sql<string>`${template}->>'name'`,
+        templateVersion: sql<number>`(${template}->>'version')::int`,
+        totalDesigns: sql<number>`count(*)`,
+        favoritedDesigns: sql<number>`count(*) filter (where ${designs.isFavorite})`,
+        regeneratedDesigns: sql<number>`count(*) filter (where exists (
+          select 1 from designs revisions
+          where revisions.parent_design_id = ${designs.id}
+            and revisions.revision_operation = 'regenerate'
+            and revisions.deleted_at is null
+        ))`,
+      })
+      .from(designs)
+      .where(and(eq(designs.status, "completed"), isNotNull(template), trashFilter()))
+      .groupBy(sql`1, 2, 3`)
+      .orderBy(sql`2, 3`);
+
+    return rows.map((row) => ({
+      ...row,
+      templateVersion: Number(row.templateVersion),
+      totalDesigns: Number(row.totalDesigns),
+      favoritedDesigns: Number(row.favoritedDesigns),
+      regeneratedDesigns: Number(row.regeneratedDesigns),
+    }));
+  }
+
+  // ==================== MODERATION METHODS ====================
+
+  async createModerationEvent(event: InsertModerationEvent): Promise<ModerationEvent> {
+    const result = await db.insert(moderationEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getModerationEvents(options?: { limit?: number; action?: string }): Promise<ModerationEvent[]> {
+    return await db
+      .select()
+      .from(moderationEvents)
+      .where(options?.action ? eq(moderationEvents.action, options.action) : undefined)
+      .orderBy(desc(moderationEvents.createdAt))
+      .limit(options?.limit || 100);
+  }
+
+  // ==================== NOTIFICATION METHODS ====================
+
+  async getUserNotifications(userId: number, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), options?.unreadOnly ? isNull(notifications.readAt) : undefined))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options?.limit || 20);
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  // ==================== GENERATION COST METHODS ====================
+
+  async createGenerationCost(cost: InsertGenerationCost): Promise<GenerationCost> {
+    const result = await db.insert(generationCosts).values(cost).returning();
+    return result[0];
+  }
+
+  async getGenerationCostReport(options: { from: Date; to: Date; tier?: string; userLimit?: number }): Promise<GenerationCostReport> {
+    const filter = and(
+      gte(generationCosts.createdAt, options.from),
+      lt(generationCosts.createdAt, options.to),
+      options.tier ? eq(generationCosts.userTier, options.tier) : undefined
+    );
+
+    const totals = {
+      calls: sql<number>`count(*)`,
+      failedCalls: sql<number>`count(*) filter (where not ${generationCosts.succeeded})`,
+      costUsd: sql<number>`coalesce(sum(${generationCosts.costUsd}), 0)`,
+    };
+
+    const toTotals = <T extends { calls: number; failedCalls: number; costUsd: number }>(row: T): T => ({
+      ...row,
+      calls: Number(row.calls),
+      failedCalls: Number(row.failedCalls),
+      costUsd: Number(row.costUsd),
+    });
+
+    const [overall] = await db.select(totals).from(generationCosts).where(filter);
+
+    const byDay = await db
+      .select({ day: sql<string>`to_char(date_trunc('day', ${generationCosts.createdAt}), 'YYYY-MM-DD')`, ...totals })
+      .from(generationCosts)
+      .where(filter)
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+
+    const byTier = await db
+      .select({ tier: generationCosts.userTier, ...totals })
+      .from(generationCosts)
+      .where(filter)
+      .groupBy(generationCosts.userTier)
+      .orderBy(desc(totals.costUsd));
+
+    const byStyle = await db
+      .select({ styleId: generationCosts.styleId, styleName: designStyles.name, ...totals })
+      .from(generationCosts)
+      .leftJoin(designStyles, eq(generationCosts.styleId, designStyles.id))
+      .where(filter)
+      .groupBy(generationCosts.styleId, designStyles.name)
+      .orderBy(desc(totals.costUsd));
+
+    const byUser = await db
+      .select({ userId: users.id, email: users.email, tier: users.tier, ...totals })
+      .from(generationCosts)
+      .innerJoin(users, eq(generationCosts.userId, users.id))
+      .where(filter)
+      .groupBy(users.id, users.email, users.tier)
+      .orderBy(desc(totals.costUsd))
+      .limit(options.userLimit || 50);
+
+    return {
+      totals: toTotals(overall),
+      byDay: byDay.map(toTotals),
+      byTier: byTier.map(toTotals),
+      byStyle: byStyle.map(toTotals),
+      byUser: byUser.map(toTotals),
+    };
+  }
+
   // ==================== SUBSCRIPTION METHODS ====================
 
   async getSubscriptionByUserId(userId: number): Promise<Subscription | undefined> {
@@ -330,5 +1161,156 @@ export class PgStorage implements IStorage {
   }
 }
 
+// Delete designs and their views, returning every image they referred to
+async function deleteDesignsWhere(where: SQL | undefined): Promise<DeletedDesigns> {
+  return await db.transaction(async (tx) => {
+    const rows = await tx.select({ id: designs.id }).from(designs).where(where).for("update");
+    const ids = rows.map((row) => row.id);
+    if (ids.length === 0) {
+      return { ids, images: [] };
+    }
+
+    // Views go with their design (on delete cascade), so read their images first
+    const views = await tx
+      .select({ image: designViews.image })
+      .from(designViews)
+      .where(inArray(designViews.designId, ids));
+    const deleted = await tx.delete(designs).where(inArray(designs.id, ids)).returning(designImageColumns);
+
+    const images = new Set([...deleted.flatMap(designImageRefs), ...views.map((view) => view.image)]);
+    return { ids, images: Array.from(images) };
+  });
+}
+
+// Fail the generating designs matching `where`. The status check makes this a claim:
+// each design is failed, and so refunded, by one caller only.
+async function failGenerationsWhere(where: SQL | undefined, error: string, now: Date): Promise<FailedGeneration[]> {
+  return await db
+    .update(designs)
+    .set({
+      status: "failed",
+      generationMetadata: sql`coalesce(${designs.generationMetadata}, '{}'::jsonb) || ${JSON.stringify({ error })}::jsonb`,
+      generationWorkerId: null,
+      generationLeaseExpiresAt: null,
+      updatedAt: now,
+    })
+    .where(and(eq(designs.status, "generating"), where))
+    .returning({ id: designs.id, userId: designs.userId, creditCost: designs.creditCost });
+}
+
+// Every stored image of a design row: the photo, renders and their thumbnails
+function designImageRefs(row: DesignImages): string[] {
+  const variants = [...(row.originalImageVariants || []), ...(row.generatedImageVariants || [])];
+  return [
+    row.originalImage,
+    row.generatedImage,
+    ...(row.unwatermarkedImage ? [row.unwatermarkedImage] : []),
+    ...variants.flatMap((variant) => [variant.webp, variant.jpeg]),
+  ].filter(Boolean);
+}
+
+// Older variations get their revision operation from npm run revisions:backfill
+const isVariation = eq(designs.revisionOperation, "variation");
+
+function trashFilter(options?: TrashOptions) {
+  return options?.includeTrashed ? undefined : isNull(designs.deletedAt);
+}
+
+// The facet filter named in `ignoring` is left out (see DesignFacets)
+function userDesignsFilter(userId: number, options?: DesignListOptions, ignoring?: keyof DesignFacets) {
+  return and(libraryFilter(userId, options), facetFilter(options, ignoring));
+}
+
+// Everything userDesignsFilter applies except the facets
+function libraryFilter(userId: number, options?: DesignListOptions) {
+  return and(
+    eq(designs.userId, userId),
+    isNull(designs.archivedAt),
+    trashFilter(),
+    options?.styleId ? eq(designs.styleId, options.styleId) : undefined,
+    options?.roomTypeId ? eq(designs.roomTypeId, options.roomTypeId) : undefined,
+    options?.favoritesOnly ? eq(designs.isFavorite, true) : undefined,
+    options?.excludeVariations ? sql`not coalesce(${isVariation}, false)` : undefined,
+    options?.search ? sql`${designs.searchVector} @@ ${searchQuery(options.search)}` : undefined
+  );
+}
+
+function facetFilter(options?: DesignListOptions, ignoring?: keyof DesignFacets) {
+  return and(
+    options?.color && ignoring !== "colors" ? paletteContains(options.color) : undefined,
+    options?.createdAfter && ignoring !== "createdWithin" ? gte(designs.createdAt, options.createdAfter) : undefined,
+    options?.createdBefore && ignoring !== "createdWithin" ? lt(designs.createdAt, options.createdBefore) : undefined,
+    options?.creationTier && ignoring !== "creationTiers" ? eq(designs.creationTier, options.creationTier) : undefined,
+    options?.isPublic !== undefined && ignoring !== "visibility" ? eq(designs.isPublic, options.isPublic) : undefined
+  );
+}
+
+// The trash lists designs deleted on their own; variations trashed with their original stay under it
+function trashedDesignsFilter(userId: number) {
+  return and(
+    eq(designs.userId, userId),
+    isNotNull(designs.deletedAt),
+    sql`not (coalesce(${isVariation}, false) and exists (
+      select 1 from designs parent
+      where parent.id = ${designs.parentDesignId} and parent.deleted_at is not null
+    ))`
+  );
+}
+
+// Text search covers the style and room type names as well as the design's own fields
+// Stored in designs.searchVector (see refreshSearchVectors) so searches can use its index
+const searchDocument = sql`to_tsvector('english', concat_ws(' ',
+  ${designs.title},
+  ${designs.prompt},
+  (select ${designStyles.name} from ${designStyles} where ${designStyles.id} = ${designs.styleId}),
+  (select ${roomTypes.name} from ${roomTypes} where ${roomTypes.id} = ${designs.roomTypeId}),
+  (select string_agg(tag, ' ') from jsonb_array_elements_text(coalesce(${designs.tags}, '[]'::jsonb)) as tag)
+))`;
+
+const SEARCHED_FIELDS: Array<keyof InsertDesign> = ["title", "prompt", "styleId", "roomTypeId", "tags"];
+
+function changesSearchDocument(updates: Partial<InsertDesign>): boolean {
+  return SEARCHED_FIELDS.some((field) => updates[field] !== undefined);
+}
+
+// Accepts what people type into search boxes: quoted phrases, "or", and -word to exclude
+function searchQuery(search: string) {
+  return sql`websearch_to_tsquery('english', ${search})`;
+}
+
+// Preset date ranges counted in DesignFacets.createdWithin
+const CREATED_WITHIN_DAYS = { week: 7, month: 30, year: 365 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function paletteContains(color: string) {
+  return sql`exists (
+    select 1 from jsonb_array_elements(coalesce(${designs.palette}, '[]'::jsonb)) as color
+    where lower(color->>'name') = ${color} or color->>'family' = ${color}
+  )`;
+}
+
+// Design columns needed by lists
+const {
+  generationMetadata: _generationMetadata,
+  unwatermarkedImage: _unwatermarkedImage,
+  searchVector: _searchVector,
+  ...designListColumns
+} = getTableColumns(designs);
+
+// Design columns that hold image references
+const designImageColumns = {
+  originalImage: designs.originalImage,
+  generatedImage: designs.generatedImage,
+  unwatermarkedImage: designs.unwatermarkedImage,
+  originalImageVariants: designs.originalImageVariants,
+  generatedImageVariants: designs.generatedImageVariants,
+};
+
+type DesignImages = Pick<Design, keyof typeof designImageColumns>;
+
+// Every design view column except the image
+const { image: _image, ...designViewSummaryColumns } = getTableColumns(designViews);
+
 // Create and export the storage instance
 export const storage = new PgStorage();
@@ -5,6 +5,7 @@ import { storage } from "./storage";
 import { db } from "./db";
 import { users } from "@shared/schema";
 import { eq } from "drizzle-orm";
+import { enqueueUpgradeCleanup } from "./services/upgrade.service";
 
 /**
  * Handle Stripe webhook events
@@ -112,6 +113,12 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
     .where(eq(users.id, userIdNum));
 
   console.log(`✅ Activated ${tier} subscription for user ${userIdNum}`);
+
+  // Unlocking watermarked designs and restoring archived ones runs in the
+  // background, so Stripe gets its acknowledgement without waiting on it
+  if (tier !== "free") {
+    enqueueUpgradeCleanup(userIdNum);
+  }
 }
 
 /**
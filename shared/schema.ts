@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, jsonb, varchar, boolean, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, varchar, boolean, doublePrecision, unique, index, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -57,7 +57,79 @@ export const roomTypes = pgTable("room_types", {
   sortOrder: integer("sort_order").notNull().default(0),
 });
 
+// ==================== PROMPT TEMPLATES TABLE ====================
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(), // Template family, e.g. "default"
+  version: integer("version").notNull().default(1),
+  description: text("description"),
+
+  // Template text with {variables}; [[ ... ]] sections drop out when a variable inside is empty
+  body: text("body").notNull(),
+
+  // Overrides - a template scoped to a style and/or room type wins over a global one
+  styleId: integer("style_id").references(() => designStyles.id, { onDelete: "cascade" }),
+  roomTypeId: integer("room_type_id").references(() => roomTypes.id, { onDelete: "cascade" }),
+
+  // A/B assignment - active templates in the same scope are picked in proportion to weight
+  weight: integer("weight").notNull().default(100),
+  isActive: boolean("is_active").notNull().default(true),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("prompt_templates_name_version_unique").on(table.name, table.version),
+]);
+
+// ==================== DESIGN BATCHES (One Photo, Many Styles) ====================
+export const designBatches = pgTable("design_batches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  roomTypeId: integer("room_type_id").references(() => roomTypes.id),
+  styleIds: jsonb("style_ids").$type<number[]>().notNull(), // In request order; one design per style
+  creditCost: integer("credit_cost").notNull(), // Charged up front; failed items are refunded individually
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // ==================== DESIGNS TABLE ====================
+// Postgres full-text search document (drizzle has no tsvector column type)
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
+// A dominant color of a generated design (type alias so it fits jsonb columns)
+export type PaletteColor = {
+  hex: string; // "#1f2a44"
+  name: string; // Nearest named color, e.g. "Navy"
+  family: string; // Broad hue family, e.g. "blue"
+  coverage: number; // Percent of the image
+};
+
+// A resized copy of a design image in both formats (see thumbnail.service)
+export type ImageVariant = {
+  size: "small" | "medium" | "large";
+  width: number;
+  height: number;
+  webp: string; // Blob store key
+  jpeg: string; // Blob store key
+};
+
+// How and from what a design was rendered
+export type GenerationMetadata = {
+  generationTime?: number;
+  dallePrompt?: string;
+  provider?: string; // "text-to-image", "photo-conditioned", "mock"
+  promptTemplate?: { id: number | null; name: string; version: number }; // null id = built-in fallback
+  settings?: Record<string, any>;
+  error?: string; // Failure reason when status is "failed"
+  errorCode?: string; // e.g. "PROVIDER_RATE_LIMIT", "PROVIDER_CONTENT_POLICY"
+  output?: { width: number; height: number; aspectRatio: string; resolution: string }; // Delivered image
+};
+
+// How a revision was made from its parent design
+export const REVISION_OPERATIONS = ["edit", "variation", "upscale", "regenerate", "revert"] as const;
+export type RevisionOperation = (typeof REVISION_OPERATIONS)[number];
+
 export const designs = pgTable("designs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
@@ -67,34 +139,81 @@ export const designs = pgTable("designs", {
   roomTypeId: integer("room_type_id").references(() => roomTypes.id),
   styleId: integer("style_id").references(() => designStyles.id),
 
-  // Images (stored as base64 in PostgreSQL - following visualtryon pattern)
+  // Revisions (edits, variations, upscales, regenerations and reverts point back at the design they came from)
+  parentDesignId: integer("parent_design_id").references((): AnyPgColumn => designs.id, { onDelete: "set null" }),
+  revisionOperation: varchar("revision_operation", { length: 20 }).$type<RevisionOperation>(), // null for designs made from a room photo
+
+  // Batch comparisons (one per style of a batch request)
+  batchId: integer("batch_id").references(() => designBatches.id, { onDelete: "set null" }),
+
+  // Images (blob store keys - see blob.service; rows from before the move may still hold base64 data URLs)
   originalImage: text("original_image").notNull(), // User's uploaded room photo
-  generatedImage: text("generated_image").notNull(), // AI-generated design
-  alternativeViews: jsonb("alternative_views").$type<string[]>(), // Additional generated variations
+  generatedImage: text("generated_image").notNull().default(""), // AI-generated design (empty while generating)
+  palette: jsonb("palette").$type<PaletteColor[]>(), // Dominant colors of generatedImage, largest first
+  originalImageVariants: jsonb("original_image_variants").$type<ImageVariant[]>(), // Thumbnails of originalImage, smallest first
+  generatedImageVariants: jsonb("generated_image_variants").$type<ImageVariant[]>(), // Thumbnails of generatedImage (null while generating)
+  tags: jsonb("tags").$type<string[]>(), // Extracted at generation for search (see tags.service)
+  // Title, prompt, style and room type names and tags; refreshed by storage when any of them change
+  searchVector: tsvector("search_vector"),
 
   // Generation Settings
+  generationMode: varchar("generation_mode", { length: 20 }).notNull().default("restyle"), // "restyle" or "stage" (virtual staging of an empty room)
   prompt: text("prompt"), // User's custom prompt/description
-  aiModel: varchar("ai_model", { length: 50 }).default("dall-e-3"),
-  generationMetadata: jsonb("generation_metadata").$type<{
-    generationTime?: number;
-    dallePrompt?: string;
-    settings?: Record<string, any>;
-  }>(),
+  aiModel: varchar("ai_model", { length: 50 }).default("dall-e-3"), // Model of the provider that rendered it
+  generationMetadata: jsonb("generation_metadata").$type<GenerationMetadata>(),
 
   // Status & Visibility
   status: varchar("status", { length: 50 }).notNull().default("completed"), // "generating", "completed", "failed"
+  // Generation lease (see generationQueue.service) - renewed by the server rendering the design;
+  // once it lapses another server fails the design and refunds it
+  generationWorkerId: varchar("generation_worker_id", { length: 100 }),
+  generationLeaseExpiresAt: timestamp("generation_lease_expires_at"),
   isPublic: boolean("is_public").notNull().default(false),
   isFavorite: boolean("is_favorite").notNull().default(false),
 
   // Credits
   creditCost: integer("credit_cost").notNull().default(1),
+  creationTier: varchar("creation_tier", { length: 50 }), // User's tier when the design was made (null on older rows)
 
   // Watermark (for free tier)
   hasWatermark: boolean("has_watermark").notNull().default(true),
+  unwatermarkedImage: text("unwatermarked_image"), // Clean render kept server-side until the user upgrades
+
+  // Free-tier retention (see retention.service)
+  retentionWarnedAt: timestamp("retention_warned_at"), // When the user was told this design will expire
+  archivedAt: timestamp("archived_at"), // Hidden by the retention job; restored when the user upgrades
+
+  // Trash (see trash.service) - purged for good once it has been there for TRASH_RETENTION_DAYS
+  deletedAt: timestamp("deleted_at"),
 
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("designs_search_vector_idx").using("gin", table.searchVector),
+]);
+
+// ==================== DESIGN VIEWS (Alternative Angles and Lighting) ====================
+export const designViews = pgTable("design_views", {
+  id: serial("id").primaryKey(),
+  designId: integer("design_id").references(() => designs.id, { onDelete: "cascade" }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // "angle", "detail", "lighting"
+  lightingScenario: varchar("lighting_scenario", { length: 20 }), // Lighting views only, e.g. "golden-hour"
+  promptSuffix: text("prompt_suffix").notNull(), // Appended to the design's prompt for this view
+  quality: varchar("quality", { length: 20 }).notNull(), // "hd" or "standard"
+  image: text("image").notNull(), // Blob store key, delivered size (watermarked/labelled like the design)
+  position: integer("position").notNull(), // Display order within the design
+  isFavorite: boolean("is_favorite").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// ==================== IMAGE BLOBS (Stored Image Sizes) ====================
+// One row per blob store key (see blob.service). Designs share blobs, so
+// storage quotas add these up over a user's distinct keys.
+export const imageBlobs = pgTable("image_blobs", {
+  key: varchar("key", { length: 80 }).primaryKey(),
+  bytes: integer("bytes").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // ==================== PRODUCTS TABLE (Shopping Integration) ====================
@@ -157,7 +276,7 @@ export const creditTransactions = pgTable("credit_transactions", {
 
   // Context
   description: text("description").notNull(),
-  designId: integer("design_id").references(() => designs.id),
+  designId: integer("design_id").references(() => designs.id, { onDelete: "set null" }),
 
   // Payment reference (for purchases)
   stripePaymentIntentId: text("stripe_payment_intent_id"),
@@ -201,35 +320,194 @@ export const favorites = pgTable("favorites", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// ==================== GENERATION COSTS (Provider Spend Ledger) ====================
+export const generationCosts = pgTable("generation_costs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  designId: integer("design_id").references(() => designs.id, { onDelete: "set null" }),
+
+  // Reporting dimensions captured at call time
+  userTier: varchar("user_tier", { length: 50 }).notNull(),
+  styleId: integer("style_id").references(() => designStyles.id, { onDelete: "set null" }),
+
+  // One row per provider call
+  purpose: varchar("purpose", { length: 50 }).notNull(), // "main", "alternative", "edit"
+  attempt: integer("attempt").notNull().default(1), // Retries of the same call count up from 1
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 50 }).notNull(),
+  quality: varchar("quality", { length: 20 }).notNull(),
+  size: varchar("size", { length: 20 }), // "<width>x<height>", null when the call failed
+  succeeded: boolean("succeeded").notNull(),
+  costUsd: doublePrecision("cost_usd").notNull().default(0), // Failed calls are not billed
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// ==================== MODERATION EVENTS (Audit Log) ====================
+export const moderationEvents = pgTable("moderation_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+
+  // Where the text came from and what was done with it
+  source: varchar("source", { length: 50 }).notNull(), // "generate", "edit"
+  action: varchar("action", { length: 20 }).notNull(), // "rewrite", "reject"
+  classifier: varchar("classifier", { length: 50 }).notNull(),
+  categories: jsonb("categories").$type<string[]>().notNull().default([]),
+  reasons: jsonb("reasons").$type<string[]>().notNull().default([]),
+
+  // Text as submitted and as sent to the model (null when rejected)
+  originalText: text("original_text").notNull(),
+  sanitizedText: text("sanitized_text"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// ==================== NOTIFICATIONS (In-App Messages) ====================
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  kind: varchar("kind", { length: 50 }).notNull(), // "retention_warning"
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message").notNull(),
+  data: jsonb("data").$type<Record<string, any>>(), // Kind-specific details, e.g. the designs a warning covers
+  createdAt: timestamp("created_at").defaultNow().notNull(), // When the user was notified
+  readAt: timestamp("read_at"), // Dismissed by the user
+});
+
 // ==================== INSERT SCHEMAS ====================
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertDesignSchema = createInsertSchema(designs).omit({ id: true, createdAt: true, updatedAt: true });
+// Typed jsonb columns would otherwise come through as any JSON value
+export const insertDesignSchema = createInsertSchema(designs, {
+  palette: z.custom<PaletteColor[]>().nullable().optional(),
+  originalImageVariants: z.custom<ImageVariant[]>().nullable().optional(),
+  generatedImageVariants: z.custom<ImageVariant[]>().nullable().optional(),
+  tags: z.array(z.string()).nullable().optional(),
+  generationMetadata: z.custom<GenerationMetadata>().nullable().optional(),
+  revisionOperation: z.enum(REVISION_OPERATIONS).nullable().optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true, searchVector: true });
+export const insertDesignViewSchema = createInsertSchema(designViews).omit({ id: true, createdAt: true });
 export const insertProductSchema = createInsertSchema(products).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDesignStyleSchema = createInsertSchema(designStyles).omit({ id: true });
 export const insertRoomTypeSchema = createInsertSchema(roomTypes).omit({ id: true });
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertDesignBatchSchema = createInsertSchema(designBatches, {
+  styleIds: z.array(z.number().int()),
+}).omit({ id: true, createdAt: true });
+export const insertGenerationCostSchema = createInsertSchema(generationCosts).omit({ id: true, createdAt: true });
+export const insertModerationEventSchema = createInsertSchema(moderationEvents, {
+  categories: z.array(z.string()),
+  reasons: z.array(z.string()),
+}).omit({ id: true, createdAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  data: z.record(z.any()).optional(),
+}).omit({ id: true, createdAt: true, readAt: true });
 
 // ==================== TYPES ====================
 export type User = typeof users.$inferSelect;
 export type Design = typeof designs.$inferSelect;
+export type DesignView = typeof designViews.$inferSelect;
 export type Product = typeof products.$inferSelect;
 export type DesignStyle = typeof designStyles.$inferSelect;
 export type RoomType = typeof roomTypes.$inferSelect;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type Subscription = typeof subscriptions.$inferSelect;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type DesignBatch = typeof designBatches.$inferSelect;
+export type GenerationCost = typeof generationCosts.$inferSelect;
+export type ModerationEvent = typeof moderationEvents.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertDesign = z.infer<typeof insertDesignSchema>;
+export type InsertDesignView = z.infer<typeof insertDesignViewSchema>;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type InsertDesignStyle = z.infer<typeof insertDesignStyleSchema>;
 export type InsertRoomType = z.infer<typeof insertRoomTypeSchema>;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type InsertDesignBatch = z.infer<typeof insertDesignBatchSchema>;
+export type InsertGenerationCost = z.infer<typeof insertGenerationCostSchema>;
+export type InsertModerationEvent = z.infer<typeof insertModerationEventSchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
 // ==================== API SCHEMAS ====================
+export const imageProviderSchema = z.enum(["text-to-image", "photo-conditioned", "mock"]);
+export const aspectRatioSchema = z.enum(["square", "4:3", "16:9", "portrait"]);
+export const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values like #1f2a44");
+
+export const generationModeSchema = z.enum(["restyle", "stage"]);
+export const stagingDensitySchema = z.enum(["minimal", "standard", "full"]);
+export const LIGHTING_SCENARIOS = ["daylight", "golden-hour", "evening", "night"] as const;
+export const lightingScenarioSchema = z.enum(LIGHTING_SCENARIOS);
+
+export const MAX_PALETTE_LOCK_COLORS = 5;
+export const MAX_BLENDED_STYLES = 3;
+export const MAX_PROMPT_CONSTRAINTS = 8;
+
+// One "exclude" or "preserve" item, e.g. "rugs" or "wood floor"
+export const promptConstraintSchema = z.string().trim().min(1, "Constraints can't be empty").max(80, "Keep each constraint under 80 characters");
+
+export const styleWeightSchema = z.object({
+  styleId: z.number().int().positive(),
+  weight: z.number().positive().max(100), // Relative; weights are normalized to sum to 1
+});
+
+// Longest custom prompt accepted with a generation or batch
+export const MAX_CUSTOM_PROMPT_LENGTH = 500;
+const customPromptSchema = z
+  .string()
+  .max(MAX_CUSTOM_PROMPT_LENGTH, `Keep your prompt under ${MAX_CUSTOM_PROMPT_LENGTH} characters`);
+
 export const designGenerationSchema = z.object({
-  roomImageBase64: z.string().min(1, "Room image is required"),
+  originalImage: z.string().min(1, "Room image is required"),
   styleId: z.number().int().positive(),
   roomTypeId: z.number().int().positive(),
-  customPrompt: z.string().max(500).optional(),
+  customPrompt: customPromptSchema.optional(),
   generateAlternatives: z.boolean().default(false),
+  provider: imageProviderSchema.optional(),
+  aspectRatio: aspectRatioSchema.default("square"),
+  paletteLock: z.array(hexColorSchema).min(1).max(MAX_PALETTE_LOCK_COLORS).optional(), // Colors to steer toward
+  styleBlend: z.array(styleWeightSchema).min(2).max(MAX_BLENDED_STYLES).optional(), // styleId is the dominant style
+  mode: generationModeSchema.default("restyle"),
+  stagingDensity: stagingDensitySchema.optional(), // How much furniture "stage" mode adds (default standard)
+  lightingScenarios: z.array(lightingScenarioSchema).min(1).max(LIGHTING_SCENARIOS.length).optional(), // Rendered as alternative views
+  exclude: z.array(promptConstraintSchema).max(MAX_PROMPT_CONSTRAINTS).optional(), // Elements that must not appear
+  preserve: z.array(promptConstraintSchema).max(MAX_PROMPT_CONSTRAINTS).optional(), // Existing elements to keep as they are
+});
+
+export const designEditSchema = z.object({
+  mask: z.string().min(1, "Mask image is required"), // White strokes mark the region to regenerate
+  instruction: z.string().min(1, "Edit instruction is required").max(500),
+  provider: imageProviderSchema.optional(),
+});
+
+export const MAX_VARIATIONS_PER_REQUEST = 4;
+
+export const designVariationSchema = z.object({
+  count: z.number().int().min(1).max(MAX_VARIATIONS_PER_REQUEST).default(2),
+  keepPalette: z.boolean().default(false), // Reuse the original design's colors
+  keepLayout: z.boolean().default(false), // Condition on the design itself instead of the room photo
+  moreBold: z.boolean().default(false), // Push toward stronger colors and statement pieces
+  lightingScenarios: z.array(lightingScenarioSchema).min(1).max(LIGHTING_SCENARIOS.length).optional(), // Per variant
+  provider: imageProviderSchema.optional(),
+});
+
+export const designRegenerateSchema = z.object({
+  provider: imageProviderSchema.optional(),
+});
+
+export const designRevertSchema = z.object({
+  revisionId: z.number().int().positive(), // Earlier revision in the same lineage to go back to
+});
+
+export const MAX_BATCH_STYLES = 10;
+
+export const designBatchSchema = z.object({
+  originalImage: z.string().min(1, "Room image is required"),
+  roomTypeId: z.number().int().positive(),
+  styleIds: z.array(z.number().int().positive()).min(1).max(MAX_BATCH_STYLES),
+  customPrompt: customPromptSchema.optional(),
+  provider: imageProviderSchema.optional(),
+  aspectRatio: aspectRatioSchema.default("square"),
 });
 
 export const updateDesignSchema = z.object({
@@ -238,5 +516,23 @@ export const updateDesignSchema = z.object({
   isPublic: z.boolean().optional(),
 });
 
+export const updateDesignViewSchema = z.object({
+  isFavorite: z.boolean(),
+});
+
 export type DesignGenerationRequest = z.infer<typeof designGenerationSchema>;
+export type DesignEditRequest = z.infer<typeof designEditSchema>;
+export type DesignVariationRequest = z.infer<typeof designVariationSchema>;
+export type DesignBatchRequest = z.infer<typeof designBatchSchema>;
+export type DesignRegenerateRequest = z.infer<typeof designRegenerateSchema>;
+export type DesignRevertRequest = z.infer<typeof designRevertSchema>;
+export type ImageProviderId = z.infer<typeof imageProviderSchema>;
+export type AspectRatio = z.infer<typeof aspectRatioSchema>;
+export type GenerationMode = z.infer<typeof generationModeSchema>;
+export type StagingDensity = z.infer<typeof stagingDensitySchema>;
+export type LightingScenario = z.infer<typeof lightingScenarioSchema>;
+export type DesignViewKind = "angle" | "detail" | "lighting";
+export type PromptConstraints = { exclude?: string[]; preserve?: string[] };
+export type StyleWeight = z.infer<typeof styleWeightSchema>;
 export type UpdateDesignRequest = z.infer<typeof updateDesignSchema>;
+export type UpdateDesignViewRequest = z.infer<typeof updateDesignViewSchema>;